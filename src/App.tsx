@@ -1,1380 +1,9358 @@
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, {
+  useEffect,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 
 /**
  * React + Tailwind wireframe.
  * Safe multiline strings (use "\\n"); self-tests check for "\\n".
  * Sorting: Newest / Most Liked / A–Z.
- * Hash routing so URLs survive refresh (#/music, #/song/slug).
+ * Typed pattern routing (#/song/:slug) with hash URLs, or clean URLs via
+ * the History API when built with VITE_ROUTER=history.
  * Persistence via localStorage + document.title per route.
  * Player fix: stable queue so playback survives route/sort/search changes.
+ * Typed domain model; stored and imported data is migrated to the current
+ * version and schema-validated.
+ * Uploaded audio lives in IndexedDB so it survives reloads.
+ * Keyboard shortcuts for playback and navigation (press ? for the list).
+ * Listener playlists (#/playlist/slug), saved locally and shareable by link.
+ * Full-text search over lyrics, stories and comments (#/search?q=).
+ * Field filters and facets on the Music page (#/music?q=mood:defiant&sort=az).
+ * Story pages (#/stories/slug) written in safe Markdown with [[song:slug]]
+ * references that play inline; authored at #/admin/posts, with drafts and
+ * private posts shown only while Private is unlocked.
+ * Synced lyrics: LRC import/export, tap-to-time editing and a follow-along
+ * view that highlights the current line.
+ * Chord charts in ChordPro with transpose, capo and Nashville numbers, and
+ * a printable song sheet (#/song/slug/sheet?transpose=2).
+ * Attached audio is decoded for its real length and a seekable waveform;
+ * ID3/FLAC/Ogg tags (title, artist, cover art) pre-fill song fields.
+ * Gapless playback: the next queued track is preloaded on a second audio
+ * element, with an optional 1–12 s crossfade.
+ * Loudness normalisation (EBU R128, per-song gain) and a five-band EQ with
+ * presets, applied through a Web Audio graph.
  */
 
 /* -------------------------
- * Mock Data (seed)
+ * Domain types
  * ------------------------- */
-const SEED_SONGS = [
-  {
-    id: 1,
-    title: "Be Good",
-    slug: "be-good",
-    duration: "3:42",
-    releaseDate: "2025-07-15",
-    genre: "Southern Rock",
-    moods: ["uplifting", "nostalgic"],
-    story:
-      `A feel-good track about small lessons and second chances—` +
-      `\\nBlending southern rock guitars with a sing-along chorus.` +
-      `\\nWritten on a summer afternoon after remembering a childhood lesson.`,
-    lyrics:
-      `Mama said be a good boy... (lyrics preview)\\n` +
-      `Chorus: Be good, be kind, do right...`,
-    audioUrl: "", // e.g. "/be-good-demo.mp3"
-    likes: 24,
-    visibility: "public",
-  },
-  {
-    id: 2,
-    title: "Diminished, Erased, and Ignored",
-    slug: "diminished-erased-ignored",
-    duration: "4:18",
-    releaseDate: "2025-08-10",
-    genre: "Blues Rock",
-    moods: ["reflective", "defiant"],
-    story:
-      `Gritty blues-rock storytelling with a raw vocal—` +
-      `\\nA song about resilience and finding your footing again.` +
-      `\\nDrawn from late-night writing sessions and raw emotion.`,
-    lyrics:
-      `But what of the man with years behind... (lyrics preview)\\n` +
-      `Chorus: Diminished, erased, ignored...`,
-    audioUrl: "", // e.g. "/diminished-demo.mp3"
-    likes: 31,
-    visibility: "public",
-  },
-  {
-    id: 3,
-    title: "Sunset Heartbreak",
-    slug: "sunset-heartbreak",
-    duration: "3:58",
-    releaseDate: "2025-06-14",
-    genre: "Country Ballad",
-    moods: ["somber", "tender"],
-    story:
-      `A quiet ballad set at dusk—` +
-      `\\nTwo people watching the sun slip under the horizon on their last day together.` +
-      `\\nCaptures the bittersweet calm of endings and memory.`,
-    lyrics:
-      `We watched the sun lay down its crown... (lyrics preview)\\n` +
-      `Chorus: Sunset fading, holding on...`,
-    audioUrl: "",
-    likes: 17,
-    visibility: "private",
-  },
-];
+type Visibility = "public" | "private";
+type SortMode = "newest" | "liked" | "az";
+type SmartSort = SortMode | "oldest";
+type RepeatMode = "off" | "all" | "one";
 
-const MOCK_POSTS = [
-  {
-    id: 1,
-    title: "The riff that sparked a chorus",
-    slug: "riff-that-sparked",
-    date: "2025-08-01",
-    tags: ["songwriting"],
-    content:
-      `I was noodling on a pentatonic lick in G—\\n` +
-      `And the hook for 'Be Good' fell into place almost by accident.\\n` +
-      `It reminded me that inspiration often comes when least expected.`,
-  },
-  {
-    id: 2,
-    title: "Choosing a tempo for a story",
-    slug: "choosing-tempo-story",
-    date: "2025-07-20",
-    tags: ["craft", "life"],
-    content:
-      `When the lyrics feel heavy, I try a slower shuffle before committing.\\n` +
-      `The groove sets the mood, and the right tempo can completely change the story.\\n` +
-      `Sometimes it takes hours of experimentation to find what clicks.`,
-  },
-];
+type Song = {
+  id: number;
+  title: string;
+  slug: string;
+  duration: string; // "m:ss"
+  releaseDate: string; // YYYY-MM-DD
+  genre: string;
+  moods: string[];
+  story: string;
+  lyrics: string;
+  audioUrl: string;
+  likes: number;
+  visibility: Visibility;
+  syncedLyrics?: SyncedLine[]; // timed lyric lines, see parseLrc
+  chords?: string; // ChordPro chart, see parseChordPro
+  waveform?: number[]; // peaks from the attached audio, see computePeaks
+  gainDb?: number; // loudness normalisation (0 if silent), see normalizationGain
+  updatedAt?: string; // ISO timestamp of the last local edit
+};
 
-/* -------------------------
- * useLocalStorage hook
- * ------------------------- */
-function useLocalStorage<T = any>(key: string, initialValue: T) {
-  const [value, setValue] = useState<T>(() => {
-    try {
-      const item = window.localStorage.getItem(key);
-      return item ? (JSON.parse(item) as T) : initialValue;
-    } catch {
-      return initialValue;
-    }
-  });
-  useEffect(() => {
-    try {
-      window.localStorage.setItem(key, JSON.stringify(value));
-    } catch {
-      /* ignore write errors */
-    }
-  }, [key, value]);
-  return [value, setValue] as const;
-}
+type SyncedLine = {
+  time: number | null; // seconds from the start; null until synced
+  text: string;
+};
 
-/* -------------------------
- * Lightweight Self-Tests
- * ------------------------- */
-function runSelfTests(songs: any[]) {
-  console.group("✅ Running UI self-tests");
-  try {
-    const required = [
-      "id",
-      "title",
-      "slug",
-      "duration",
-      "releaseDate",
-      "genre",
-      "moods",
-      "story",
-      "lyrics",
-      "visibility",
-    ];
-    songs.forEach((s, i) => {
-      required.forEach((k) => {
-        console.assert(k in s, `Song[${i}] missing key: ${k}`);
-      });
-      console.assert(
-        typeof s.title === "string" && s.title.length > 0,
-        `Song[${i}] title invalid`
-      );
-      console.assert(
-        typeof s.slug === "string" && /^[a-z0-9-]+$/i.test(s.slug),
-        `Song[${i}] slug invalid`
-      );
-      console.assert(
-        typeof s.lyrics === "string",
-        `Song[${i}] lyrics must be a string`
-      );
-      console.assert(Array.isArray(s.moods), `Song[${i}] moods must be array`);
-    });
+// Drafts and private posts are only shown once Private is unlocked
+type PostStatus = "draft" | "published" | "private";
 
-    songs.forEach((s) => {
-      const path = `/song/${s.slug}`;
-      console.assert(
-        path.startsWith("/song/"),
-        `Route path malformed for ${s.title}`
-      );
-    });
+type Post = {
+  id: number;
+  title: string;
+  slug: string;
+  date: string; // YYYY-MM-DD
+  tags: string[];
+  content: string; // Markdown, see parseMarkdown
+  status: PostStatus;
+  songIds: number[]; // related songs
+  updatedAt?: string; // ISO timestamp of the last local edit
+};
 
-    const q = songs[0]?.moods?.[0]?.toUpperCase?.() || "UPLIFTING";
-    const found = songs.filter(
-      (s) =>
-        s.title.toLowerCase().includes(q.toLowerCase()) ||
-        s.moods.join(" ").toLowerCase().includes(q.toLowerCase())
-    );
-    console.assert(
-      found.length >= 1,
-      "Search by mood should find at least one song"
-    );
+type Comment = {
+  name: string;
+  message: string;
+  createdAt: string; // ISO timestamp
+};
 
-    const hasNewline = songs.some((s) => s.lyrics.includes("\\n"));
-    console.assert(
-      hasNewline,
-      "At least one song should have multiline lyrics with a newline"
-    );
+type GuestbookEntry = {
+  name: string;
+  message: string;
+  createdAt: string; // ISO timestamp
+};
 
-    const pub = songs.some((s) => s.visibility === "public");
-    const pri = songs.some((s) => s.visibility === "private");
-    console.assert(
-      pub && pri,
-      "Seed should include both public and private songs"
-    );
+// A listener-made playlist; songIds keep their order and may point at songs
+// that were since deleted (those are skipped when the list is shown).
+// Smart playlists pick their songs by rules instead and ignore songIds.
+type Playlist = {
+  id: number;
+  name: string;
+  slug: string;
+  songIds: number[];
+  smart?: SmartCriteria;
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+};
 
-    const byDateDesc = (a: any, b: any) =>
-      new Date(b.releaseDate).getTime() - new Date(a.releaseDate).getTime();
-    const byLikesDesc = (a: any, b: any) => (b.likes || 0) - (a.likes || 0);
-    const byTitleAsc = (a: any, b: any) =>
-      (a.title || "").localeCompare(b.title || "");
-    [byDateDesc, byLikesDesc, byTitleAsc].forEach((cmp, idx) => {
-      const copy = songs.slice();
-      copy.sort(cmp);
-      console.assert(
-        Array.isArray(copy) && copy.length === songs.length,
-        `Sort test ${idx + 1} ok`
-      );
-    });
-  } catch (err) {
-    console.error("Self-tests encountered an error:", err);
-  }
-  console.groupEnd();
-}
+type SmartRule =
+  | { kind: "genre"; text: string } // genre contains text (any case)
+  | { kind: "moods"; match: "any" | "all"; moods: string[] }
+  | { kind: "released"; from: string; to: string } // YYYY-MM-DD, "" = open
+  | { kind: "likes"; min: number } // more than `min` likes
+  | { kind: "liked" } // liked by me
+  | { kind: "visibility"; visibility: Visibility };
 
-/* -------------------------
- * Utilities
- * ------------------------- */
-const routes = [
-  { path: "/", label: "Home" },
-  { path: "/music", label: "Music" },
-  { path: "/playlists", label: "Playlists" },
-  { path: "/stories", label: "Stories" },
-  { path: "/request", label: "Request" },
-  { path: "/guestbook", label: "Guestbook" },
-  { path: "/about", label: "About" },
-  { path: "/subscribe", label: "Subscribe" },
-  { path: "/private", label: "Private" },
-  { path: "/data", label: "Data" },
-];
+type SmartCriteria = {
+  match: "all" | "any"; // AND / OR across rules
+  rules: SmartRule[];
+  sort: SmartSort;
+  limit: number | null;
+};
 
-function classNames(...xs: (string | false | null | undefined)[]) {
-  return xs.filter(Boolean).join(" ");
-}
+// An unlock of the Private section; ignored once expiresAt has passed
+type PrivateSession = { unlockedAt: number; expiresAt: number };
+// Failed unlock attempts; lockedUntil is set once maxAttempts is reached
+type PrivateLockout = { failures: number; lockedUntil: number | null };
 
-function computeTitle(path: string, song?: { title: string } | null) {
-  if (path.startsWith("/song/") && song?.title)
-    return `${song.title} – Brian's Songs`;
-  switch (path) {
-    case "/":
-      return "Home – Brian's Songs";
-    case "/music":
-      return "Music – Brian's Songs";
-    case "/playlists":
-      return "Playlists – Brian's Songs";
-    case "/stories":
-      return "Stories – Brian's Songs";
-    case "/request":
-      return "Request a Song – Brian's Songs";
-    case "/guestbook":
-      return "Guestbook – Brian's Songs";
-    case "/about":
-      return "About – Brian's Songs";
-    case "/subscribe":
-      return "Subscribe – Brian's Songs";
-    case "/private":
-      return "Private – Brian's Songs";
-    case "/data":
-      return "Data – Brian's Songs";
-    default:
-      return "Brian's Songs";
-  }
-}
+// Where playback was when the page was last open
+type SavedPosition = { songId: number; time: number };
+
+// Player EQ: one gain in dB per EQ_BANDS entry; the preset becomes
+// "Custom" once a band is moved by hand
+type EqSettings = { preset: string; gains: number[] };
+
+type Liked = Record<number, boolean>;
+type CommentThreads = Record<string, Comment[]>;
+type Setter<T> = React.Dispatch<React.SetStateAction<T>>;
 
 /* -------------------------
- * Main App
+ * Runtime schema validation
+ * Validators collect every problem into `errors` (with a path like
+ * "songs[2].moods") and return the value narrowed to its type.
+ * Object validators keep only known keys.
  * ------------------------- */
-export default function App() {
-  const [path, setPath] = useState("/");
-  const [query, setQuery] = useState("");
+type Validator<T> = (value: unknown, path: string, errors: string[]) => T;
 
-  // Persisted state
-  const [songs, setSongs] = useLocalStorage("msw:songs", SEED_SONGS);
-  const [liked, setLiked] = useLocalStorage(
-    "msw:liked",
-    {} as Record<number, boolean>
-  );
-  const [guestbook, setGuestbook] = useLocalStorage(
-    "msw:guestbook",
-    [] as any[]
-  );
-  const [comments, setComments] = useLocalStorage(
-    "msw:comments",
-    {} as Record<string, any[]>
-  );
-  const [privateUnlocked, setPrivateUnlocked] = useLocalStorage(
-    "msw:priv",
-    false
-  );
-  const [sortMode, setSortMode] = useLocalStorage("msw:sort", "newest"); // 'newest' | 'liked' | 'az'
+function isPlainObject(x: unknown): x is Record<string, unknown> {
+  return typeof x === "object" && x !== null && !Array.isArray(x);
+}
 
-  // Player state (queue-based so playback survives navigation)
-  const [queue, setQueue] = useState<number[]>([]);
-  const [queueIndex, setQueueIndex] = useState<number | null>(null);
-  const [isPlaying, setIsPlaying] = useState(false);
+const v = {
+  string:
+    (pattern?: RegExp): Validator<string> =>
+    (x, path, errors) => {
+      if (typeof x !== "string") errors.push(`${path}: expected string`);
+      else if (pattern && !pattern.test(x))
+        errors.push(`${path}: "${x}" does not match ${pattern}`);
+      return x as string;
+    },
+  number: (): Validator<number> => (x, path, errors) => {
+    if (typeof x !== "number" || !Number.isFinite(x))
+      errors.push(`${path}: expected number`);
+    return x as number;
+  },
+  boolean: (): Validator<boolean> => (x, path, errors) => {
+    if (typeof x !== "boolean") errors.push(`${path}: expected boolean`);
+    return x as boolean;
+  },
+  oneOf:
+    <T extends string>(...options: T[]): Validator<T> =>
+    (x, path, errors) => {
+      if (!options.includes(x as T))
+        errors.push(`${path}: expected one of ${options.join(" | ")}`);
+      return x as T;
+    },
+  array:
+    <T,>(item: Validator<T>): Validator<T[]> =>
+    (x, path, errors) => {
+      if (!Array.isArray(x)) {
+        errors.push(`${path}: expected array`);
+        return [];
+      }
+      return x.map((el, i) => item(el, `${path}[${i}]`, errors));
+    },
+  record:
+    <T,>(item: Validator<T>): Validator<Record<string, T>> =>
+    (x, path, errors) => {
+      if (!isPlainObject(x)) {
+        errors.push(`${path}: expected object`);
+        return {};
+      }
+      const out: Record<string, T> = {};
+      for (const [k, val] of Object.entries(x))
+        out[k] = item(val, `${path}.${k}`, errors);
+      return out;
+    },
+  object:
+    <T extends object>(shape: {
+      [K in keyof T]-?: Validator<T[K]>;
+    }): Validator<T> =>
+    (x, path, errors) => {
+      if (!isPlainObject(x)) {
+        errors.push(`${path}: expected object`);
+        return {} as T;
+      }
+      const out = {} as T;
+      for (const k of Object.keys(shape) as (keyof T)[]) {
+        const val = shape[k](x[k as string], `${path}.${String(k)}`, errors);
+        if (val !== undefined) out[k] = val;
+      }
+      return out;
+    },
+  // Discriminated union: picks the validator named by x[tag]
+  tagged:
+    <T extends object>(
+      tag: string,
+      shapes: Record<string, Validator<T>>
+    ): Validator<T> =>
+    (x, path, errors) => {
+      const shape = isPlainObject(x) ? shapes[String(x[tag])] : undefined;
+      if (!shape) {
+        errors.push(
+          `${path}.${tag}: expected one of ${Object.keys(shapes).join(" | ")}`
+        );
+        return {} as T;
+      }
+      return shape(x, path, errors);
+    },
+  optional:
+    <T,>(item: Validator<T>): Validator<T | undefined> =>
+    (x, path, errors) =>
+      x === undefined ? undefined : item(x, path, errors),
+  nullable:
+    <T,>(item: Validator<T>): Validator<T | null> =>
+    (x, path, errors) =>
+      x === null ? null : item(x, path, errors),
+};
 
-  // Init: self-tests
-  useEffect(() => {
-    runSelfTests(songs);
-  }, []); // only once
+type Validation<T> = { ok: true; value: T } | { ok: false; errors: string[] };
 
-  // Hash routing: sync path <-> location.hash
-  useEffect(() => {
-    const readHash = () => {
-      const h = window.location.hash.replace(/^#/, "") || "/";
-      setPath(h);
-    };
-    window.addEventListener("hashchange", readHash);
-    readHash();
-    return () => window.removeEventListener("hashchange", readHash);
-  }, []);
+function validate<T>(
+  schema: Validator<T>,
+  value: unknown,
+  label = "data"
+): Validation<T> {
+  const errors: string[] = [];
+  const result = schema(value, label, errors);
+  return errors.length ? { ok: false, errors } : { ok: true, value: result };
+}
 
-  const navigate = (to: string) => {
-    if (!to.startsWith("#")) {
-      window.location.hash = to;
-    }
-    setPath(to);
-    window.scrollTo({ top: 0, behavior: "smooth" });
-  };
+const VisibilitySchema = v.oneOf<Visibility>("public", "private");
+const SortModeSchema = v.oneOf<SortMode>("newest", "liked", "az");
+const RepeatModeSchema = v.oneOf<RepeatMode>("off", "all", "one");
+const PrivateSessionSchema = v.nullable(
+  v.object<PrivateSession>({ unlockedAt: v.number(), expiresAt: v.number() })
+);
+const PrivateLockoutSchema = v.object<PrivateLockout>({
+  failures: v.number(),
+  lockedUntil: v.nullable(v.number()),
+});
+const SavedPositionSchema = v.nullable(
+  v.object<SavedPosition>({ songId: v.number(), time: v.number() })
+);
+const EqSettingsSchema = v.object<EqSettings>({
+  preset: v.string(),
+  gains: v.array(v.number()),
+});
 
-  // Visible + sorted songs (respect search & private unlock)
-  const visibleSongs = useMemo(() => {
-    let base = songs.slice();
-    if (path !== "/private") {
-      base = base.filter((s: any) => s.visibility === "public");
-    } else if (!privateUnlocked) {
-      base = [];
-    }
-    const q = query.trim().toLowerCase();
-    base = q
-      ? base.filter(
-          (s: any) =>
-            s.title.toLowerCase().includes(q) ||
-            s.genre.toLowerCase().includes(q) ||
-            s.moods.join(" ").toLowerCase().includes(q)
-        )
-      : base;
+const SongSchema = v.object<Song>({
+  id: v.number(),
+  title: v.string(/\S/),
+  slug: v.string(/^[a-z0-9-]+$/i),
+  duration: v.string(),
+  releaseDate: v.string(/^\d{4}-\d{2}-\d{2}$/),
+  genre: v.string(),
+  moods: v.array(v.string()),
+  story: v.string(),
+  lyrics: v.string(),
+  audioUrl: v.string(),
+  likes: v.number(),
+  visibility: VisibilitySchema,
+  syncedLyrics: v.optional(
+    v.array(
+      v.object<SyncedLine>({ time: v.nullable(v.number()), text: v.string() })
+    )
+  ),
+  chords: v.optional(v.string()),
+  waveform: v.optional(v.array(v.number())),
+  gainDb: v.optional(v.number()),
+  updatedAt: v.optional(v.string()),
+});
 
-    const byDateDesc = (a: any, b: any) =>
-      new Date(b.releaseDate).getTime() - new Date(a.releaseDate).getTime();
-    const byLikesDesc = (a: any, b: any) =>
-      b.likes + (liked[b.id] ? 1 : 0) - (a.likes + (liked[a.id] ? 1 : 0));
-    const byTitleAsc = (a: any, b: any) => a.title.localeCompare(b.title);
+const PostSchema = v.object<Post>({
+  id: v.number(),
+  title: v.string(/\S/),
+  slug: v.string(/^[a-z0-9-]+$/i),
+  date: v.string(/^\d{4}-\d{2}-\d{2}$/),
+  tags: v.array(v.string()),
+  content: v.string(),
+  status: v.oneOf<PostStatus>("draft", "published", "private"),
+  songIds: v.array(v.number()),
+  updatedAt: v.optional(v.string()),
+});
 
-    if (sortMode === "liked") base.sort(byLikesDesc);
-    else if (sortMode === "az") base.sort(byTitleAsc);
-    else base.sort(byDateDesc);
+const CommentSchema = v.object<Comment>({
+  name: v.string(),
+  message: v.string(),
+  createdAt: v.string(),
+});
 
-    return base;
-  }, [songs, query, path, privateUnlocked, sortMode, liked]);
+const GuestbookEntrySchema = v.object<GuestbookEntry>({
+  name: v.string(),
+  message: v.string(),
+  createdAt: v.string(),
+});
 
-  // Song detail by slug (from path)
-  const routeSong = useMemo(() => {
-    if (!path.startsWith("/song/")) return null;
-    const slug = path.replace("/song/", "");
-    return songs.find((s: any) => s.slug === slug) || null;
-  }, [path, songs]);
+type RuleOf<K extends SmartRule["kind"]> = Extract<SmartRule, { kind: K }>;
 
-  // Document title
-  useEffect(() => {
-    const title = computeTitle(path, routeSong);
-    document.title = title;
-  }, [path, routeSong]);
+const SmartRuleSchema = v.tagged<SmartRule>("kind", {
+  genre: v.object<RuleOf<"genre">>({
+    kind: v.oneOf("genre"),
+    text: v.string(),
+  }),
+  moods: v.object<RuleOf<"moods">>({
+    kind: v.oneOf("moods"),
+    match: v.oneOf("any", "all"),
+    moods: v.array(v.string()),
+  }),
+  released: v.object<RuleOf<"released">>({
+    kind: v.oneOf("released"),
+    from: v.string(/^(\d{4}-\d{2}-\d{2})?$/),
+    to: v.string(/^(\d{4}-\d{2}-\d{2})?$/),
+  }),
+  likes: v.object<RuleOf<"likes">>({
+    kind: v.oneOf("likes"),
+    min: v.number(),
+  }),
+  liked: v.object<RuleOf<"liked">>({ kind: v.oneOf("liked") }),
+  visibility: v.object<RuleOf<"visibility">>({
+    kind: v.oneOf("visibility"),
+    visibility: VisibilitySchema,
+  }),
+});
 
-  // Current song derived from queue
-  const currentSong = useMemo(() => {
-    if (queueIndex == null) return null;
-    const id = queue[queueIndex];
-    return songs.find((s: any) => s.id === id) || null;
-  }, [queue, queueIndex, songs]);
+const SmartCriteriaSchema = v.object<SmartCriteria>({
+  match: v.oneOf("all", "any"),
+  rules: v.array(SmartRuleSchema),
+  sort: v.oneOf<SmartSort>("newest", "oldest", "liked", "az"),
+  limit: v.nullable(v.number()),
+});
 
-  // Start playback for a given song, snapshotting the current visible list as the queue
-  const playBySong = (song: any) => {
-    const newQueue = visibleSongs.map((s: any) => s.id);
-    const startIndex = newQueue.indexOf(song.id);
-    if (startIndex === -1) return;
+const PlaylistSchema = v.object<Playlist>({
+  id: v.number(),
+  name: v.string(/\S/),
+  slug: v.string(/^[a-z0-9-]+$/i),
+  songIds: v.array(v.number()),
+  smart: v.optional(SmartCriteriaSchema),
+  createdAt: v.string(),
+  updatedAt: v.string(),
+});
 
-    setQueue(newQueue);
-    setQueueIndex(startIndex);
-    setIsPlaying(true);
+const SongListSchema = v.array(SongSchema);
+const PlaylistListSchema = v.array(PlaylistSchema);
+const PostListSchema = v.array(PostSchema);
+const LikedSchema = v.record(v.boolean()) as Validator<Liked>;
+const CommentThreadsSchema = v.record(v.array(CommentSchema));
+const GuestbookSchema = v.array(GuestbookEntrySchema);
 
-    if (!path.startsWith("/song/")) navigate(`/song/${song.slug}`);
-  };
+// Every collection is optional in a backup; present ones must be well-formed.
+// Backups are migrated to DATA_VERSION before they are validated.
+type Backup = {
+  version?: number;
+  exportedAt?: string;
+  songs?: Song[];
+  liked?: Liked;
+  comments?: CommentThreads;
+  guestbook?: GuestbookEntry[];
+  sortMode?: SortMode;
+  playlists?: Playlist[];
+  posts?: Post[];
+};
 
-  // Start playback of the entire *visible* list (respects search/sort/private)
-  const playAllVisible = () => {
-    if (!visibleSongs.length) return;
-    const ids = visibleSongs.map((s: any) => s.id);
-    setQueue(ids);
-    setQueueIndex(0);
-    setIsPlaying(true);
-    // Optional: navigate to the first song's page
-    const first = songs.find((s: any) => s.id === ids[0]);
-    if (first && !path.startsWith("/song/")) navigate(`/song/${first.slug}`);
-  };
+const BackupSchema = v.object<Backup>({
+  version: v.optional(v.number()),
+  exportedAt: v.optional(v.string()),
+  songs: v.optional(SongListSchema),
+  liked: v.optional(LikedSchema),
+  comments: v.optional(CommentThreadsSchema),
+  guestbook: v.optional(GuestbookSchema),
+  sortMode: v.optional(SortModeSchema),
+  playlists: v.optional(PlaylistListSchema),
+  posts: v.optional(PostListSchema),
+});
 
-  const openSongDetail = (song: any) => navigate(`/song/${song.slug}`);
+/* -------------------------
+ * Data versioning & migrations
+ * Stored data and backup files share one layout: collection name -> value
+ * (see VERSIONED_KEYS for where each collection lives in localStorage).
+ * Each migration upgrades that layout by exactly one version and must not
+ * mutate its input. Missing version = 1 (the original backup format).
+ * ------------------------- */
+const DATA_VERSION = 2;
+const VERSION_KEY = "msw:version";
 
-  // Update a song (attach audio URL, etc.)
-  const updateSong = (id: number, patch: any) => {
-    setSongs((prev: any[]) =>
-      prev.map((s) => (s.id === id ? { ...s, ...patch } : s))
-    );
-  };
+type DataSnapshot = Record<string, unknown>;
 
-  // Queue stepping
-  const stepQueue = (dir: number) => {
-    if (!queue.length || queueIndex == null) return;
-    const next = (queueIndex + dir + queue.length) % queue.length;
-    setQueueIndex(next);
-  };
+type Migration = {
+  from: number;
+  description: string;
+  migrate: (data: DataSnapshot) => DataSnapshot;
+};
 
-  const stopPlayback = () => {
-    setIsPlaying(false);
-  };
+const MIGRATIONS: Migration[] = [
+  {
+    from: 1,
+    description:
+      "Replace the boolean private unlock with an expiring session, fill in " +
+      "missing song fields and drop dead blob: audio URLs",
+    migrate: ({ privateUnlocked: _unlocked, ...data }) => ({
+      ...data,
+      // msw:priv used to be `true` forever; require a fresh unlock
+      ...("privateSession" in data ? { privateSession: null } : {}),
+      ...(Array.isArray(data.songs)
+        ? {
+            songs: data.songs.map((s) =>
+              isPlainObject(s)
+                ? {
+                    ...s,
+                    likes: typeof s.likes === "number" ? s.likes : 0,
+                    audioUrl:
+                      typeof s.audioUrl === "string" &&
+                      !s.audioUrl.startsWith("blob:")
+                        ? s.audioUrl
+                        : "",
+                  }
+                : s
+            ),
+          }
+        : {}),
+    }),
+  },
+];
 
-  const currentRoute = (() => {
-    if (path.startsWith("/song/")) return "song";
-    const match = routes.find((r) => r.path === path);
-    return match ? match.label.toLowerCase() : "notfound";
-  })();
+const VERSIONED_KEYS: Record<string, string> = {
+  songs: "msw:songs",
+  liked: "msw:liked",
+  comments: "msw:comments",
+  guestbook: "msw:guestbook",
+  privateSession: "msw:priv",
+  sortMode: "msw:sort",
+  playlists: "msw:playlists",
+  posts: "msw:posts",
+};
 
-  return (
-    <div className="min-h-screen bg-neutral-50 text-neutral-900 flex flex-col">
-      {/* Header */}
-      <header className="sticky top-0 z-40 backdrop-blur supports-[backdrop-filter]:bg-white/70 bg-white border-b border-neutral-200">
-        <div className="max-w-6xl mx-auto px-4 py-3 flex items-center justify-between">
-          <button
-            className="text-xl font-bold tracking-tight hover:opacity-80"
-            onClick={() => navigate("/")}
-            aria-label="Go home"
-          >
-            🎵 briTunes
-          </button>
+type MigrationResult =
+  | { ok: true; data: DataSnapshot; version: number }
+  | { ok: false; error: string };
 
-          <nav className="hidden md:flex gap-4 text-sm">
-            {routes.map((r) => (
-              <button
-                key={r.path}
-                onClick={() => navigate(r.path)}
-                className={classNames(
-                  "px-3 py-2 rounded-xl hover:bg-neutral-100",
-                  path === r.path && "bg-neutral-200"
-                )}
-              >
-                {r.label}
-              </button>
-            ))}
-          </nav>
+// Runs every migration from `version` up to DATA_VERSION on a copy of `data`
+function migrateData(data: DataSnapshot, version: number): MigrationResult {
+  if (!Number.isInteger(version) || version < 1)
+    return { ok: false, error: `Unknown data version "${version}".` };
+  if (version > DATA_VERSION)
+    return {
+      ok: false,
+      error:
+        `This data was saved by a newer version of the site (v${version}); ` +
+        `this version understands up to v${DATA_VERSION}.`,
+    };
+  let current = structuredClone(data);
+  for (let ver = version; ver < DATA_VERSION; ver++) {
+    const step = MIGRATIONS.find((m) => m.from === ver);
+    if (!step) return { ok: false, error: `No migration from v${ver}.` };
+    try {
+      current = step.migrate(current);
+    } catch (err) {
+      return {
+        ok: false,
+        error: `Migration v${ver}→v${ver + 1} failed: ${
+          err instanceof Error ? err.message : String(err)
+        }`,
+      };
+    }
+  }
+  return { ok: true, data: current, version: DATA_VERSION };
+}
 
-          <div className="flex items-center gap-2">
-            <input
-              value={query}
-              onChange={(e) => setQuery(e.target.value)}
-              placeholder="Search songs by title, mood, genre..."
-              className="w-40 md:w-72 px-3 py-2 rounded-xl border border-neutral-300 focus:outline-none focus:ring-2 focus:ring-neutral-400"
-            />
-          </div>
-        </div>
-      </header>
+// Upgrades the msw:* keys in place, once per page load, before any
+// useLocalStorage reads them. All keys are written or none are.
+let storageMigrated = false;
 
-      {/* Main */}
-      <main className="flex-1">
-        {currentRoute === "home" && (
-          <HomePage
-            onPlaySong={playBySong}
-            onPlayAll={playAllVisible}
-            navigate={navigate}
-            songs={songs}
-          />
-        )}
+function ensureStorageMigrated() {
+  if (storageMigrated) return;
+  storageMigrated = true;
+  try {
+    const store = window.localStorage;
+    const raw: Record<string, string | null> = {};
+    for (const key of Object.values(VERSIONED_KEYS))
+      raw[key] = store.getItem(key);
 
-        {currentRoute === "music" && (
-          <MusicPage
-            songs={visibleSongs}
-            onOpenSong={openSongDetail}
-            onPlaySong={playBySong}
-            onPlayAll={playAllVisible}
-            liked={liked}
-            setLiked={setLiked}
-            sortMode={sortMode}
-            setSortMode={setSortMode}
-          />
-        )}
+    const hasData = Object.values(raw).some((x) => x != null);
+    const storedVersion = Number(
+      store.getItem(VERSION_KEY) ?? (hasData ? 1 : DATA_VERSION)
+    );
+    if (storedVersion === DATA_VERSION) {
+      store.setItem(VERSION_KEY, String(DATA_VERSION));
+      return;
+    }
 
-        {currentRoute === "song" && (
-          <SongDetailPage
-            song={routeSong}
-            onPlaySong={playBySong}
-            onBack={() => navigate("/music")}
-            comments={comments}
-            setComments={setComments}
-            liked={liked}
-            setLiked={setLiked}
-            onUpdateSong={updateSong}
-          />
-        )}
+    const snapshot: DataSnapshot = {};
+    for (const [name, key] of Object.entries(VERSIONED_KEYS)) {
+      const item = raw[key];
+      if (item == null) continue;
+      try {
+        snapshot[name] = JSON.parse(item);
+      } catch {
+        /* unreadable; left for useLocalStorage to reject */
+      }
+    }
 
-        {currentRoute === "playlists" && (
-          <PlaylistsPage
-            songs={songs}
-            onPlaySong={playBySong}
-            navigate={navigate}
-          />
-        )}
+    const result = migrateData(snapshot, storedVersion);
+    if (!result.ok) {
+      console.error(`Stored data left unchanged: ${result.error}`);
+      return;
+    }
 
-        {currentRoute === "stories" && <StoriesPage posts={MOCK_POSTS} />}
+    try {
+      for (const [name, key] of Object.entries(VERSIONED_KEYS)) {
+        if (name in result.data)
+          store.setItem(key, JSON.stringify(result.data[name]));
+      }
+      store.setItem(VERSION_KEY, String(result.version));
+    } catch (err) {
+      // Roll back so a half-written upgrade never reaches the app
+      for (const [key, item] of Object.entries(raw)) {
+        if (item == null) store.removeItem(key);
+        else store.setItem(key, item);
+      }
+      console.error("Stored data migration could not be saved:", err);
+    }
+  } catch {
+    /* storage unavailable */
+  }
+}
 
-        {currentRoute === "request" && <RequestPage />}
+/* -------------------------
+ * Backup diff & merge
+ * Songs match by id, then slug; comments by song slug + createdAt;
+ * guestbook entries by createdAt + name; playlists by createdAt; posts by
+ * slug. "Keep newer" lets a song, playlist or post from the backup win only
+ * when its updatedAt is later; everything without an edit time keeps the
+ * local copy. Merging never removes local items.
+ * ------------------------- */
+type SiteData = {
+  songs: Song[];
+  liked: Liked;
+  comments: CommentThreads;
+  guestbook: GuestbookEntry[];
+  sortMode: SortMode;
+  playlists: Playlist[];
+  posts: Post[];
+};
 
-        {currentRoute === "guestbook" && (
-          <GuestbookPage
-            entries={guestbook}
-            onSubmit={(e: any) => setGuestbook([e, ...guestbook])}
-          />
-        )}
+type MergeStrategy = "replace" | "newer" | "local";
 
-        {currentRoute === "about" && <AboutPage />}
+type DiffItem = { key: string; label: string };
 
-        {currentRoute === "subscribe" && <SubscribePage />}
+type CollectionDiff = {
+  added: DiffItem[];
+  changed: DiffItem[];
+  removed: DiffItem[];
+  unchanged: number;
+};
 
-        {currentRoute === "private" && (
-          <PrivatePage
-            unlocked={privateUnlocked}
-            setUnlocked={setPrivateUnlocked}
-            songs={visibleSongs}
-            onOpenSong={openSongDetail}
-            onPlaySong={playBySong}
-          />
-        )}
+type BackupDiff = Partial<Record<keyof SiteData, CollectionDiff>>;
 
-        {currentRoute === "data" && (
-          <DataPage
-            songs={songs}
-            liked={liked}
-            comments={comments}
-            guestbook={guestbook}
-            privateUnlocked={privateUnlocked}
-            sortMode={sortMode}
-            setSongs={setSongs}
-            setLiked={setLiked}
-            setComments={setComments}
-            setGuestbook={setGuestbook}
-            setPrivateUnlocked={setPrivateUnlocked}
-            setSortMode={setSortMode}
-          />
-        )}
+const sameJson = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
 
-        {currentRoute === "notfound" && (
-          <NotFound onBack={() => navigate("/")} />
-        )}
-      </main>
+// Local song each backup song corresponds to (by id, then by slug)
+function matchSongs(local: Song[], incoming: Song[]) {
+  const matches = new Map<Song, Song>();
+  for (const s of incoming) {
+    const hit =
+      local.find((l) => l.id === s.id) || local.find((l) => l.slug === s.slug);
+    if (hit) matches.set(s, hit);
+  }
+  return matches;
+}
 
-      {/* Persistent Mini Player (queue-based) */}
-      <MiniPlayer
-        currentSong={currentSong}
-        isPlaying={isPlaying}
-        setIsPlaying={setIsPlaying}
-        canStep={queue.length > 1 && queueIndex != null}
-        onStepPrev={() => stepQueue(-1)}
-        onStepNext={() => stepQueue(1)}
-        onStop={stopPlayback}
-      />
+function diffKeyed<T>(
+  local: T[],
+  incoming: T[],
+  keyOf: (x: T) => string,
+  labelOf: (x: T) => string
+): CollectionDiff {
+  const localByKey = new Map(local.map((x) => [keyOf(x), x]));
+  const incomingKeys = new Set(incoming.map(keyOf));
+  const diff: CollectionDiff = {
+    added: [],
+    changed: [],
+    removed: [],
+    unchanged: 0,
+  };
+  for (const x of incoming) {
+    const key = keyOf(x);
+    const mine = localByKey.get(key);
+    if (mine === undefined) diff.added.push({ key, label: labelOf(x) });
+    else if (!sameJson(mine, x)) diff.changed.push({ key, label: labelOf(x) });
+    else diff.unchanged++;
+  }
+  for (const x of local) {
+    const key = keyOf(x);
+    if (!incomingKeys.has(key)) diff.removed.push({ key, label: labelOf(x) });
+  }
+  return diff;
+}
 
-      {/* Footer */}
-      <footer className="border-t border-neutral-200 py-6 text-sm">
-        <div className="max-w-6xl mx-auto px-4 flex flex-col md:flex-row items-center justify-between gap-3">
-          <p className="text-neutral-600">
-            © {new Date().getFullYear()} Brian Nay — All rights reserved.
-          </p>
-          <div className="flex items-center gap-4">
-            <button
-              onClick={() => navigate("/subscribe")}
-              className="px-3 py-2 rounded-xl bg-neutral-900 text-white hover:opacity-90"
-            >
-              Subscribe
-            </button>
-            <button
-              onClick={() => navigate("/request")}
-              className="px-3 py-2 rounded-xl border hover:bg-neutral-100"
-            >
-              Request a Song
-            </button>
-          </div>
-        </div>
-      </footer>
-    </div>
+const flattenComments = (threads: CommentThreads) =>
+  Object.entries(threads).flatMap(([slug, thread]) =>
+    thread.map((c) => ({ slug, ...c }))
   );
+
+const commentKey = (c: { slug: string; createdAt: string }) =>
+  `${c.slug}|${c.createdAt}`;
+const guestbookKey = (e: GuestbookEntry) => `${e.createdAt}|${e.name}`;
+const playlistKey = (p: Playlist) => p.createdAt;
+const byCreatedDesc = (a: { createdAt: string }, b: { createdAt: string }) =>
+  b.createdAt.localeCompare(a.createdAt);
+
+function diffBackup(local: SiteData, backup: Backup): BackupDiff {
+  const diff: BackupDiff = {};
+  if (backup.songs) {
+    const matches = matchSongs(local.songs, backup.songs);
+    // Compare matched songs under the local id so slug matches line up
+    const aligned = backup.songs.map((s) => {
+      const hit = matches.get(s);
+      return hit ? { ...s, id: hit.id } : { ...s, id: -s.id - 1 };
+    });
+    diff.songs = diffKeyed(
+      local.songs,
+      aligned,
+      (s) => String(s.id),
+      (s) => s.title
+    );
+  }
+  if (backup.liked) {
+    const toList = (liked: Liked) =>
+      Object.entries(liked).map(([id, on]) => ({ id, on }));
+    diff.liked = diffKeyed(
+      toList(local.liked),
+      toList(backup.liked),
+      (x) => x.id,
+      (x) => {
+        const song = [...local.songs, ...(backup.songs ?? [])].find(
+          (s) => String(s.id) === x.id
+        );
+        return `${song?.title ?? `Song #${x.id}`}: ${
+          x.on ? "liked" : "not liked"
+        }`;
+      }
+    );
+  }
+  if (backup.comments) {
+    diff.comments = diffKeyed(
+      flattenComments(local.comments),
+      flattenComments(backup.comments),
+      commentKey,
+      (c) => `${c.name} on ${c.slug}: ${c.message.slice(0, 40)}`
+    );
+  }
+  if (backup.guestbook) {
+    diff.guestbook = diffKeyed(
+      local.guestbook,
+      backup.guestbook,
+      guestbookKey,
+      (e) => `${e.name || "Anonymous"}: ${e.message.slice(0, 40)}`
+    );
+  }
+  if (backup.playlists) {
+    diff.playlists = diffKeyed(
+      local.playlists,
+      backup.playlists,
+      playlistKey,
+      (p) =>
+        p.smart ? `${p.name} (smart)` : `${p.name} (${p.songIds.length} songs)`
+    );
+  }
+  if (backup.posts) {
+    diff.posts = diffKeyed(
+      local.posts,
+      backup.posts,
+      (p) => p.slug,
+      (p) => (p.status === "published" ? p.title : `${p.title} (${p.status})`)
+    );
+  }
+  if (backup.sortMode) {
+    const changed = backup.sortMode !== local.sortMode;
+    diff.sortMode = {
+      added: [],
+      changed: changed
+        ? [{ key: "sortMode", label: `${local.sortMode} → ${backup.sortMode}` }]
+        : [],
+      removed: [],
+      unchanged: changed ? 0 : 1,
+    };
+  }
+  return diff;
 }
 
-/* -------------------------
- * Components
- * ------------------------- */
-function HomePage({ onPlaySong, onPlayAll, navigate, songs }: any) {
-  const latest = [...songs]
-    .filter((s) => s.visibility === "public")
-    .sort(
-      (a, b) =>
-        new Date(b.releaseDate).getTime() - new Date(a.releaseDate).getTime()
-    )[0];
+function mergeBackup(
+  local: SiteData,
+  backup: Backup,
+  strategy: MergeStrategy
+): SiteData {
+  if (strategy === "replace") {
+    return {
+      songs: backup.songs ?? local.songs,
+      liked: backup.liked ?? local.liked,
+      comments: backup.comments ?? local.comments,
+      guestbook: backup.guestbook ?? local.guestbook,
+      sortMode: backup.sortMode ?? local.sortMode,
+      playlists: backup.playlists ?? local.playlists,
+      posts: backup.posts ?? local.posts,
+    };
+  }
 
-  return (
-    <section className="max-w-6xl mx-auto px-4 py-10">
-      <div className="rounded-3xl bg-gradient-to-br from-neutral-900 to-neutral-700 text-white p-8 md:p-12 shadow-xl">
-        <h1 className="text-3xl md:text-4xl font-semibold tracking-tight">
-          Welcome to briTunes!
-        </h1>
-        <p className="mt-2 text-neutral-200 max-w-2xl">
-          Songs and stories from the road—bluesy grit, southern rock swagger,
-          and quiet moments in between.
-        </p>
-        {latest && (
-          <div className="mt-6 flex flex-col md:flex-row items-start md:items-center gap-3">
-            <button
-              className="px-5 py-3 rounded-2xl bg-white text-neutral-900 font-medium hover:opacity-90"
-              onClick={() => onPlaySong(latest)}
-            >
-              ▶ Play Latest — {latest.title}
-            </button>
-            <button
-              className="px-5 py-3 rounded-2xl border border-white/40 hover:bg-white/10"
-              onClick={() => navigate("/music")}
-            >
-              Browse All Songs
-            </button>
-            <button
-              className="px-5 py-3 rounded-2xl border border-white/40 hover:bg-white/10"
-              onClick={onPlayAll}
-            >
-              ▶ Play All
-            </button>
-          </div>
-        )}
-      </div>
+  // Songs: backup ids are remapped onto local ids (matches) or fresh ids
+  // (additions that would collide), and liked flags follow the remap.
+  const idMap = new Map<number, number>();
+  let songs = local.songs;
+  if (backup.songs) {
+    const matches = matchSongs(local.songs, backup.songs);
+    const replaced = new Map<number, Song>();
+    const added: Song[] = [];
+    let nextId = Math.max(0, ...local.songs.map((s) => s.id)) + 1;
+    for (const s of backup.songs) {
+      const hit = matches.get(s);
+      if (hit) {
+        idMap.set(s.id, hit.id);
+        const incomingNewer = (s.updatedAt ?? "") > (hit.updatedAt ?? "");
+        if (strategy === "newer" && incomingNewer)
+          replaced.set(hit.id, { ...s, id: hit.id, slug: hit.slug });
+      } else {
+        const id = local.songs.some((l) => l.id === s.id) ? nextId++ : s.id;
+        idMap.set(s.id, id);
+        added.push({
+          ...s,
+          id,
+          slug: uniqueSlug(s.slug, [...local.songs, ...added]),
+        });
+      }
+    }
+    songs = [...local.songs.map((s) => replaced.get(s.id) ?? s), ...added];
+  }
 
-      {/* Featured playlist teaser */}
-      <div className="mt-10">
-        <h2 className="text-xl font-semibold">
-          Featured Playlist · New &amp; Noteworthy
-        </h2>
-        <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4">
-          {songs
-            .filter((s: any) => s.visibility === "public")
-            .slice(0, 3)
-            .map((s: any) => (
-              <SongCard key={s.id} song={s} onPlay={() => onPlaySong(s)} />
-            ))}
-        </div>
-      </div>
-    </section>
-  );
-}
+  let liked = local.liked;
+  if (backup.liked) {
+    liked = { ...local.liked };
+    for (const [id, on] of Object.entries(backup.liked)) {
+      const localId = idMap.get(Number(id)) ?? Number(id);
+      if (!(localId in liked)) liked[localId] = on;
+    }
+  }
 
-function MusicPage({
-  songs,
-  onOpenSong,
-  onPlaySong,
-  onPlayAll,
-  liked,
-  setLiked,
-  sortMode,
-  setSortMode,
-}: any) {
-  const sortLabel =
-    sortMode === "newest"
-      ? "Sorted by Newest"
-      : sortMode === "liked"
-      ? "Sorted by Most Liked"
-      : "Sorted A–Z";
+  let comments = local.comments;
+  if (backup.comments) {
+    const seen = new Set(flattenComments(local.comments).map(commentKey));
+    comments = { ...local.comments };
+    for (const { slug, ...c } of flattenComments(backup.comments)) {
+      if (seen.has(commentKey({ slug, ...c }))) continue;
+      comments[slug] = [...(comments[slug] ?? []), c].sort(byCreatedDesc);
+    }
+  }
 
-  return (
+  let guestbook = local.guestbook;
+  if (backup.guestbook) {
+    const seen = new Set(local.guestbook.map(guestbookKey));
+    guestbook = [
+      ...local.guestbook,
+      ...backup.guestbook.filter((e) => !seen.has(guestbookKey(e))),
+    ].sort(byCreatedDesc);
+  }
+
+  // Playlists follow the song id remap; added ones get fresh ids and slugs
+  let playlists = local.playlists;
+  if (backup.playlists) {
+    const byKey = new Map(local.playlists.map((p) => [playlistKey(p), p]));
+    const remap = (p: Playlist) => p.songIds.map((id) => idMap.get(id) ?? id);
+    const added: Playlist[] = [];
+    const replaced = new Map<number, Playlist>();
+    let nextId = Math.max(0, ...local.playlists.map((p) => p.id)) + 1;
+    for (const p of backup.playlists) {
+      const hit = byKey.get(playlistKey(p));
+      if (hit) {
+        if (strategy === "newer" && p.updatedAt > hit.updatedAt)
+          replaced.set(hit.id, {
+            ...p,
+            id: hit.id,
+            slug: hit.slug,
+            songIds: remap(p),
+          });
+      } else {
+        added.push({
+          ...p,
+          id: nextId++,
+          slug: uniqueSlug(p.slug, [
+            ...BUILT_IN_PLAYLISTS,
+            ...local.playlists,
+            ...added,
+          ]),
+          songIds: remap(p),
+        });
+      }
+    }
+    playlists = [
+      ...local.playlists.map((p) => replaced.get(p.id) ?? p),
+      ...added,
+    ];
+  }
+
+  // Posts also follow the song id remap; added ones keep their slug (it
+  // didn't match) and get a fresh id only on a collision
+  let posts = local.posts;
+  if (backup.posts) {
+    const bySlug = new Map(local.posts.map((p) => [p.slug, p]));
+    const remap = (p: Post) => p.songIds.map((id) => idMap.get(id) ?? id);
+    const added: Post[] = [];
+    const replaced = new Map<number, Post>();
+    let nextId = Math.max(0, ...local.posts.map((p) => p.id)) + 1;
+    for (const p of backup.posts) {
+      const hit = bySlug.get(p.slug);
+      if (hit) {
+        const incomingNewer = (p.updatedAt ?? "") > (hit.updatedAt ?? "");
+        if (strategy === "newer" && incomingNewer)
+          replaced.set(hit.id, { ...p, id: hit.id, songIds: remap(p) });
+      } else {
+        const taken = [...local.posts, ...added].some((l) => l.id === p.id);
+        added.push({ ...p, id: taken ? nextId++ : p.id, songIds: remap(p) });
+      }
+    }
+    posts = [...local.posts.map((p) => replaced.get(p.id) ?? p), ...added];
+  }
+
+  return {
+    songs,
+    liked,
+    comments,
+    guestbook,
+    sortMode: local.sortMode,
+    playlists,
+    posts,
+  };
+}
+
+/* -------------------------
+ * Export formats (CSV, M3U, XSPF)
+ * ------------------------- */
+const EXPORT_ARTIST = "Brian Nay";
+
+type PlaylistSource = { id: string; title: string; songs: Song[] };
+
+// RFC 4180: quote fields containing commas, quotes or line breaks
+function csvField(value: unknown) {
+  const text = value == null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+function toCsv(header: string[], rows: unknown[][]) {
+  return [header, ...rows].map((r) => r.map(csvField).join(",")).join("\r\n");
+}
+
+function songsToCsv(songs: Song[]) {
+  return toCsv(
+    [
+      "id",
+      "title",
+      "slug",
+      "duration",
+      "releaseDate",
+      "genre",
+      "moods",
+      "likes",
+      "visibility",
+      "audioUrl",
+      "story",
+      "lyrics",
+    ],
+    songs.map((s) => [
+      s.id,
+      s.title,
+      s.slug,
+      s.duration,
+      s.releaseDate,
+      s.genre,
+      s.moods.join("; "),
+      s.likes,
+      s.visibility,
+      s.audioUrl,
+      // CSV cells get real (quoted) line breaks
+      toEditable(s.story),
+      toEditable(s.lyrics),
+    ])
+  );
+}
+
+function commentsToCsv(comments: CommentThreads) {
+  return toCsv(
+    ["song", "name", "createdAt", "message"],
+    flattenComments(comments).map((c) => [
+      c.slug,
+      c.name,
+      c.createdAt,
+      c.message,
+    ])
+  );
+}
+
+function guestbookToCsv(entries: GuestbookEntry[]) {
+  return toCsv(
+    ["name", "createdAt", "message"],
+    entries.map((e) => [e.name, e.createdAt, e.message])
+  );
+}
+
+function postsToCsv(posts: Post[], songs: Song[]) {
+  const slugOf = (id: number) => songs.find((s) => s.id === id)?.slug ?? id;
+  return toCsv(
+    ["id", "title", "slug", "date", "status", "tags", "songs", "content"],
+    posts.map((p) => [
+      p.id,
+      p.title,
+      p.slug,
+      p.date,
+      p.status,
+      p.tags.join("; "),
+      p.songIds.map(slugOf).join("; "),
+      toEditable(p.content),
+    ])
+  );
+}
+
+// "3:42" -> 222; -1 when unknown (M3U convention)
+function parseDuration(duration: string) {
+  const m = /^(\d+):([0-5]\d)$/.exec(duration.trim());
+  return m ? Number(m[1]) * 60 + Number(m[2]) : -1;
+}
+
+// Playlist files need URLs other apps can open: stored uploads (idb:) and
+// session blob: URLs are skipped, relative paths are made absolute.
+function playableUrl(audioUrl: string) {
+  if (!audioUrl || storedAudioId(audioUrl) != null) return null;
+  if (audioUrl.startsWith("blob:")) return null;
+  try {
+    return new URL(audioUrl, window.location.href).href;
+  } catch {
+    return null;
+  }
+}
+
+function playlistEntries(songs: Song[]) {
+  return songs.flatMap((song) => {
+    const url = playableUrl(song.audioUrl);
+    return url ? [{ song, url }] : [];
+  });
+}
+
+function toM3u(title: string, songs: Song[]) {
+  const lines = ["#EXTM3U", `#PLAYLIST:${title}`];
+  for (const { song, url } of playlistEntries(songs)) {
+    lines.push(
+      `#EXTINF:${parseDuration(song.duration)},${EXPORT_ARTIST} - ${
+        song.title
+      }`,
+      url
+    );
+  }
+  return lines.join("\n") + "\n";
+}
+
+const xmlEscape = (text: string) =>
+  text.replace(
+    /[<>&"']/g,
+    (c) =>
+      ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;", "'": "&apos;" }[
+        c
+      ]!)
+  );
+
+function toXspf(title: string, songs: Song[]) {
+  const tracks = playlistEntries(songs).map(({ song, url }) => {
+    const seconds = parseDuration(song.duration);
+    return [
+      "    <track>",
+      `      <location>${xmlEscape(url)}</location>`,
+      `      <title>${xmlEscape(song.title)}</title>`,
+      `      <creator>${xmlEscape(EXPORT_ARTIST)}</creator>`,
+      `      <album>${xmlEscape(song.genre)}</album>`,
+      seconds >= 0 ? `      <duration>${seconds * 1000}</duration>` : "",
+      "    </track>",
+    ]
+      .filter(Boolean)
+      .join("\n");
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+    `  <title>${xmlEscape(title)}</title>`,
+    `  <creator>${xmlEscape(EXPORT_ARTIST)}</creator>`,
+    "  <trackList>",
+    ...tracks,
+    "  </trackList>",
+    "</playlist>",
+    "",
+  ].join("\n");
+}
+
+function downloadFile(fileName: string, content: string, type: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/* -------------------------
+ * Full-text search (#/search?q=)
+ * Songs, stories and comments are indexed by folded token (lowercase,
+ * accents stripped). Every query term must match a token exactly or as a
+ * prefix; results rank by the weight of the fields they matched in, and an
+ * exact match counts double.
+ * ------------------------- */
+type SearchType = "song" | "post" | "comment";
+
+type SearchField = { label: string; text: string; weight: number };
+
+type SearchDoc = {
+  type: SearchType;
+  id: string;
+  title: string;
+  route: string;
+  fields: SearchField[];
+};
+
+type SearchIndex = {
+  docs: SearchDoc[];
+  terms: string[]; // sorted, for prefix lookup
+  postings: Map<string, Map<number, number>>; // term -> doc index -> weight
+};
+
+type SnippetPart = { text: string; hit: boolean };
+
+type SearchResult = {
+  doc: SearchDoc;
+  score: number;
+  field: string;
+  snippet: SnippetPart[];
+};
+
+const WORD_RE = /[\p{L}\p{N}]+/gu;
+
+function foldText(text: string) {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+}
+
+function tokenize(text: string) {
+  return foldText(text).match(WORD_RE) ?? [];
+}
+
+// What can be searched right now; callers pass only the songs the visitor
+// may see, and comments on any other song are left out with them
+function searchDocuments(
+  songs: Song[],
+  posts: Post[],
+  comments: CommentThreads
+): SearchDoc[] {
+  const flat = (text: string) => toEditable(text).replace(/\s*\n\s*/g, " / ");
+  const bySlug = new Map(songs.map((s) => [s.slug, s]));
+  return [
+    ...songs.map(
+      (s): SearchDoc => ({
+        type: "song",
+        id: `song-${s.id}`,
+        title: s.title,
+        route: `/song/${s.slug}`,
+        fields: [
+          { label: "Title", text: s.title, weight: 8 },
+          { label: "Genre", text: s.genre, weight: 4 },
+          { label: "Moods", text: s.moods.join(", "), weight: 4 },
+          { label: "Story", text: flat(s.story), weight: 2 },
+          { label: "Lyrics", text: flat(s.lyrics), weight: 1 },
+        ],
+      })
+    ),
+    ...posts.map(
+      (p): SearchDoc => ({
+        type: "post",
+        id: `post-${p.id}`,
+        title: p.title,
+        route: `/stories/${p.slug}`,
+        fields: [
+          { label: "Title", text: p.title, weight: 8 },
+          { label: "Tags", text: p.tags.join(", "), weight: 4 },
+          { label: "Story", text: flat(p.content), weight: 1 },
+        ],
+      })
+    ),
+    ...flattenComments(comments).flatMap((c): SearchDoc[] => {
+      const song = bySlug.get(c.slug);
+      if (!song) return [];
+      return [
+        {
+          type: "comment",
+          id: `comment-${commentKey(c)}`,
+          title: `${c.name || "Anonymous"} on ${song.title}`,
+          route: `/song/${song.slug}`,
+          fields: [
+            { label: "Name", text: c.name, weight: 2 },
+            { label: "Comment", text: c.message, weight: 1 },
+          ],
+        },
+      ];
+    }),
+  ];
+}
+
+function buildSearchIndex(docs: SearchDoc[]): SearchIndex {
+  const postings = new Map<string, Map<number, number>>();
+  docs.forEach((doc, i) => {
+    for (const field of doc.fields)
+      for (const term of tokenize(field.text)) {
+        let byDoc = postings.get(term);
+        if (!byDoc) postings.set(term, (byDoc = new Map()));
+        byDoc.set(i, (byDoc.get(i) ?? 0) + field.weight);
+      }
+  });
+  return { docs, postings, terms: [...postings.keys()].sort() };
+}
+
+function termsWithPrefix(terms: string[], prefix: string) {
+  let lo = 0;
+  let hi = terms.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (terms[mid] < prefix) lo = mid + 1;
+    else hi = mid;
+  }
+  const out: string[] = [];
+  for (let i = lo; i < terms.length && terms[i].startsWith(prefix); i++)
+    out.push(terms[i]);
+  return out;
+}
+
+// Text around the first hit, with every hit marked; null if nothing matches
+function makeSnippet(text: string, queryTerms: string[], radius = 60) {
+  const isHit = (word: string) => {
+    const folded = foldText(word);
+    return queryTerms.some((q) => folded.startsWith(q));
+  };
+  const words = [...text.matchAll(WORD_RE)];
+  const first = words.find((m) => isHit(m[0]));
+  if (!first) return null;
+  let start = Math.max(0, first.index! - radius);
+  let end = Math.min(text.length, first.index! + radius * 2);
+  // Don't cut words in half at either edge
+  if (start > 0) start = text.indexOf(" ", start) + 1 || start;
+  if (end < text.length) end = text.lastIndexOf(" ", end) || end;
+
+  const parts: SnippetPart[] = [];
+  let pos = start;
+  for (const m of words) {
+    const at = m.index!;
+    if (at < start || at + m[0].length > end || !isHit(m[0])) continue;
+    if (at > pos) parts.push({ text: text.slice(pos, at), hit: false });
+    parts.push({ text: m[0], hit: true });
+    pos = at + m[0].length;
+  }
+  if (pos < end) parts.push({ text: text.slice(pos, end), hit: false });
+  if (start > 0) parts.unshift({ text: "…", hit: false });
+  if (end < text.length) parts.push({ text: "…", hit: false });
+  return parts;
+}
+
+function search(index: SearchIndex, query: string): SearchResult[] {
+  const queryTerms = [...new Set(tokenize(query))];
+  if (!queryTerms.length) return [];
+
+  // Every term must match; a prefix that expands to several tokens counts
+  // its best one so short prefixes don't swamp the ranking
+  let scores = new Map<number, number>();
+  for (const [n, q] of queryTerms.entries()) {
+    const termScores = new Map<number, number>();
+    for (const term of termsWithPrefix(index.terms, q)) {
+      const boost = term === q ? 2 : 1;
+      for (const [doc, weight] of index.postings.get(term)!)
+        termScores.set(doc, Math.max(termScores.get(doc) ?? 0, weight * boost));
+    }
+    const prev = scores;
+    scores = new Map(
+      [...termScores]
+        .filter(([doc]) => n === 0 || prev.has(doc))
+        .map(([doc, score]) => [doc, score + (prev.get(doc) ?? 0)])
+    );
+  }
+
+  return [...scores]
+    .sort((a, b) => b[1] - a[1])
+    .map(([i, score]) => {
+      const doc = index.docs[i];
+      // Show where it matched, preferring body text over the title
+      const body = doc.fields.filter((f) => f.label !== "Title");
+      for (const f of body) {
+        const snippet = makeSnippet(f.text, queryTerms);
+        if (snippet) return { doc, score, field: f.label, snippet };
+      }
+      // Title-only match: open the longest field instead
+      const fallback = body.reduce(
+        (best, f) => (f.text.length > best.text.length ? f : best),
+        doc.fields[0]
+      );
+      return {
+        doc,
+        score,
+        field: fallback.label,
+        snippet: [
+          {
+            text:
+              fallback.text.length > 180
+                ? `${fallback.text.slice(0, 180)}…`
+                : fallback.text,
+            hit: false,
+          },
+        ],
+      };
+    });
+}
+
+/* -------------------------
+ * Structured song queries (#/music?q=&sort=)
+ * The search box takes field filters next to free text, e.g.
+ *   genre:"blues rock" mood:defiant year:2025 likes:>20 is:liked
+ * Filters on the same field are OR'ed, different fields AND'ed, and the
+ * free text must appear in the title, genre or moods. year: and likes: take
+ * =, >, >=, <, <= or a range (year:2020..2023).
+ * ------------------------- */
+type QueryField = "genre" | "mood" | "year" | "likes" | "is";
+
+type SongTest = (song: Song, liked: Liked) => boolean;
+
+type QueryToken =
+  | { kind: "text"; raw: string; text: string }
+  | {
+      kind: "filter";
+      raw: string;
+      field: QueryField;
+      value: string;
+      test: SongTest | null; // null: value not understood, filter ignored
+    };
+
+type ParsedQuery = {
+  tokens: QueryToken[];
+  text: string;
+  invalid: string[]; // raw filters that were ignored
+};
+
+const QUERY_FIELDS: QueryField[] = ["genre", "mood", "year", "likes", "is"];
+
+// field:"quoted value" | field:value | "quoted text" | word
+const QUERY_TOKEN_RE = /(\w+):(?:"([^"]*)"?|(\S*))|"([^"]*)"?|(\S+)/g;
+
+function parseComparison(value: string): ((n: number) => boolean) | null {
+  const range = value.match(/^(\d+)\.\.(\d+)$/);
+  if (range) {
+    const [lo, hi] = [Number(range[1]), Number(range[2])];
+    return (n) => n >= lo && n <= hi;
+  }
+  const m = value.match(/^(>=|<=|>|<|=)?(\d+)$/);
+  if (!m) return null;
+  const x = Number(m[2]);
+  switch (m[1]) {
+    case ">":
+      return (n) => n > x;
+    case ">=":
+      return (n) => n >= x;
+    case "<":
+      return (n) => n < x;
+    case "<=":
+      return (n) => n <= x;
+    default:
+      return (n) => n === x;
+  }
+}
+
+function queryFilterTest(field: QueryField, value: string): SongTest | null {
+  const needle = value.trim().toLowerCase();
+  if (!needle) return null;
+  switch (field) {
+    case "genre":
+      return (s) => s.genre.toLowerCase().includes(needle);
+    case "mood":
+      return (s) => s.moods.some((m) => m.toLowerCase() === needle);
+    case "year": {
+      const cmp = parseComparison(needle);
+      return cmp && ((s) => cmp(Number(s.releaseDate.slice(0, 4))));
+    }
+    case "likes": {
+      const cmp = parseComparison(needle);
+      return cmp && ((s, liked) => cmp(likeCount(s, liked)));
+    }
+    case "is":
+      if (needle === "liked") return (s, liked) => !!liked[s.id];
+      if (needle === "public" || needle === "private")
+        return (s) => s.visibility === needle;
+      return null;
+  }
+}
+
+function parseSongQuery(query: string): ParsedQuery {
+  const tokens: QueryToken[] = [];
+  for (const m of query.matchAll(QUERY_TOKEN_RE)) {
+    const [raw, name, quoted, bare, phrase, word] = m;
+    const field = name?.toLowerCase() as QueryField;
+    if (name && QUERY_FIELDS.includes(field)) {
+      const value = quoted ?? bare ?? "";
+      tokens.push({
+        kind: "filter",
+        raw,
+        field,
+        value,
+        test: queryFilterTest(field, value),
+      });
+    } else {
+      tokens.push({ kind: "text", raw, text: phrase ?? word ?? raw });
+    }
+  }
+  return {
+    tokens,
+    text: tokens
+      .flatMap((t) => (t.kind === "text" ? [t.text] : []))
+      .join(" ")
+      .trim(),
+    invalid: tokens.flatMap((t) =>
+      t.kind === "filter" && !t.test ? [t.raw] : []
+    ),
+  };
+}
+
+// `exceptField` leaves one field's filters out (for facet counts)
+function matchesSongQuery(
+  parsed: ParsedQuery,
+  song: Song,
+  liked: Liked,
+  exceptField?: QueryField
+) {
+  const text = parsed.text.toLowerCase();
+  if (
+    text &&
+    !song.title.toLowerCase().includes(text) &&
+    !song.genre.toLowerCase().includes(text) &&
+    !song.moods.join(" ").toLowerCase().includes(text)
+  )
+    return false;
+  const byField = new Map<QueryField, SongTest[]>();
+  for (const t of parsed.tokens)
+    if (t.kind === "filter" && t.test && t.field !== exceptField)
+      byField.set(t.field, [...(byField.get(t.field) ?? []), t.test]);
+  return [...byField.values()].every((tests) =>
+    tests.some((test) => test(song, liked))
+  );
+}
+
+const sameFilter =
+  (field: QueryField, value: string) =>
+  (t: QueryToken): boolean =>
+    t.kind === "filter" &&
+    t.field === field &&
+    t.value.toLowerCase() === value.toLowerCase();
+
+// Adds field:value to the query, or takes it out if it is already there
+function toggleQueryFilter(query: string, field: QueryField, value: string) {
+  const { tokens } = parseSongQuery(query);
+  const same = sameFilter(field, value);
+  if (tokens.some(same))
+    return tokens
+      .filter((t) => !same(t))
+      .map((t) => t.raw)
+      .join(" ");
+  const quoted = /[\s"]/.test(value) ? `"${value.replace(/"/g, "")}"` : value;
+  return [...tokens.map((t) => t.raw), `${field}:${quoted}`].join(" ");
+}
+
+// The Music page URL for a query and sort, e.g. #/music?q=mood%3Adefiant&sort=az
+function musicPath(query: string, sort: SortMode) {
+  const params = new URLSearchParams();
+  if (query) params.set("q", query);
+  params.set("sort", sort);
+  return `/music?${params}`;
+}
+
+/* -------------------------
+ * Synced lyrics (LRC)
+ * A song's syncedLyrics are its lyric lines with a start time each (null
+ * until someone taps one in). They sit next to the plain `lyrics` text,
+ * which stays the source for display when nothing is synced; saving new
+ * lyrics in the song editor rebuilds the lines to match.
+ * LRC lines look like "[01:02.50]text"; a line may carry several stamps
+ * ("[00:12.00][00:45.00]chorus") and [offset:+250] shifts every stamp (ms).
+ * ------------------------- */
+const LRC_STAMP_RE = /\[(\d+):(\d{1,2}(?:[.:]\d{1,3})?)\]/g;
+const LRC_TAG_RE = /^\[([a-z]+):(.*)\]$/i;
+
+function parseLrc(text: string): SyncedLine[] {
+  let offset = 0;
+  const lines: SyncedLine[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    const tag = line.match(LRC_TAG_RE);
+    if (tag && !/^\d/.test(tag[1])) {
+      if (tag[1].toLowerCase() === "offset")
+        offset = Number(tag[2]) / 1000 || 0;
+      continue;
+    }
+    const stamps = [...line.matchAll(LRC_STAMP_RE)];
+    const words = line.replace(LRC_STAMP_RE, "").trim();
+    if (!stamps.length) {
+      if (words) lines.push({ time: null, text: words });
+      continue;
+    }
+    for (const [, min, sec] of stamps)
+      lines.push({
+        time: Number(min) * 60 + Number(sec.replace(":", ".")),
+        text: words,
+      });
+  }
+  // Stamps are in file order only when every line has one
+  const timed = lines.every((l) => l.time != null);
+  return (timed ? lines.sort((a, b) => a.time! - b.time!) : lines).map((l) =>
+    l.time == null ? l : { ...l, time: Math.max(0, l.time - offset) }
+  );
+}
+
+// 62.5 -> "01:02.50"
+function formatLrcTime(seconds: number) {
+  const cs = Math.round(seconds * 100);
+  const m = Math.floor(cs / 6000);
+  const s = (cs % 6000) / 100;
+  return `${String(m).padStart(2, "0")}:${s.toFixed(2).padStart(5, "0")}`;
+}
+
+// Lines without a time are left out; LRC players can't place them
+function toLrc(song: Song, lines: SyncedLine[]) {
+  return [
+    `[ti:${song.title}]`,
+    `[ar:${EXPORT_ARTIST}]`,
+    ...(parseDuration(song.duration) > 0 ? [`[length:${song.duration}]`] : []),
+    ...lines.flatMap((l) =>
+      l.time == null ? [] : [`[${formatLrcTime(l.time)}]${l.text}`]
+    ),
+  ].join("\n");
+}
+
+// Lines from the plain lyrics, keeping times already tapped for lines whose
+// text is unchanged (matched in order, so repeated choruses keep theirs)
+function syncLinesFromLyrics(lyrics: string, previous: SyncedLine[] = []) {
+  const pool = previous.slice();
+  return toEditable(lyrics)
+    .split("\n")
+    .map((l) => l.trim())
+    .filter(Boolean)
+    .map((text): SyncedLine => {
+      const at = pool.findIndex((p) => p.text === text);
+      const time = at === -1 ? null : pool.splice(at, 1)[0].time;
+      return { time, text };
+    });
+}
+
+// Index of the line playing at `time`: the last timed line that has started
+function activeLyricLine(lines: SyncedLine[], time: number) {
+  let active = -1;
+  let best = -Infinity;
+  lines.forEach((l, i) => {
+    if (l.time != null && l.time <= time && l.time >= best) {
+      best = l.time;
+      active = i;
+    }
+  });
+  return active;
+}
+
+/* -------------------------
+ * Chord charts (ChordPro)
+ * A song's optional `chords` field holds a ChordPro chart: lyrics with
+ * [G]inline chords, plus {key: G}, {capo: 2}, {comment: ...} and
+ * {start_of_chorus}/{end_of_chorus} (and _verse/_bridge) directives.
+ * Charts are shown transposed and/or with capo shapes, or as Nashville
+ * numbers relative to the key.
+ * ------------------------- */
+const MAX_CAPO = 11; // frets; the chart's {capo:} and ?capo= are clamped
+
+type ChordSegment = { chord: string | null; text: string };
+
+type ChartLine =
+  | { kind: "lyrics"; segments: ChordSegment[]; section: ChartSection }
+  | { kind: "label"; text: string; section: ChartSection }
+  | { kind: "blank" };
+
+type ChartSection = "chorus" | "verse" | "bridge" | null;
+
+type ChordChart = {
+  title: string | null;
+  subtitle: string | null;
+  key: string | null; // e.g. "G", "Em"; from {key:} or the first chord
+  capo: number; // from {capo:}
+  tempo: string | null;
+  lines: ChartLine[];
+};
+
+type ChordDisplay = {
+  transpose: number; // semitones, applied to the sounding key
+  capo: number; // frets; chords are shown as shapes below the capo
+  nashville: boolean;
+};
+
+const SHARP_NOTES = [
+  "C",
+  "C#",
+  "D",
+  "D#",
+  "E",
+  "F",
+  "F#",
+  "G",
+  "G#",
+  "A",
+  "A#",
+  "B",
+];
+const FLAT_NOTES = [
+  "C",
+  "Db",
+  "D",
+  "Eb",
+  "E",
+  "F",
+  "Gb",
+  "G",
+  "Ab",
+  "A",
+  "Bb",
+  "B",
+];
+// Keys written with flats (majors, then minors)
+const FLAT_KEYS = new Set([
+  "F",
+  "Bb",
+  "Eb",
+  "Ab",
+  "Db",
+  "Gb",
+  "Dm",
+  "Gm",
+  "Cm",
+  "Fm",
+  "Bbm",
+  "Ebm",
+]);
+const NASHVILLE_DEGREES = [
+  "1",
+  "b2",
+  "2",
+  "b3",
+  "3",
+  "4",
+  "b5",
+  "5",
+  "b6",
+  "6",
+  "b7",
+  "7",
+];
+
+const CHORD_RE = /^([A-G])([#b]?)([^/]*)(?:\/([A-G])([#b]?))?$/;
+
+const noteIndex = (letter: string, accidental: string) => {
+  const i = SHARP_NOTES.indexOf(letter);
+  return (i + (accidental === "#" ? 1 : accidental === "b" ? -1 : 0) + 12) % 12;
+};
+
+const mod12 = (n: number) => ((n % 12) + 12) % 12;
+
+function parseChordPro(source: string): ChordChart {
+  const chart: ChordChart = {
+    title: null,
+    subtitle: null,
+    key: null,
+    capo: 0,
+    tempo: null,
+    lines: [],
+  };
+  let section: ChartSection = null;
+  for (const raw of toEditable(source).split("\n")) {
+    const line = raw.trimEnd();
+    const directive = line
+      .trim()
+      .match(/^\{\s*([\w-]+)\s*(?::\s*(.*?))?\s*\}$/);
+    if (directive) {
+      const name = directive[1].toLowerCase();
+      const value = directive[2]?.trim() ?? "";
+      const start = name.match(/^(?:start_of_|so)(chorus|verse|bridge|c|v|b)$/);
+      const label: Record<string, Exclude<ChartSection, null>> = {
+        c: "chorus",
+        v: "verse",
+        b: "bridge",
+        chorus: "chorus",
+        verse: "verse",
+        bridge: "bridge",
+      };
+      if (start) {
+        section = label[start[1]];
+        if (value || section === "chorus")
+          chart.lines.push({
+            kind: "label",
+            text: value || "Chorus",
+            section,
+          });
+      } else if (/^(?:end_of_|eo)(chorus|verse|bridge|c|v|b)$/.test(name))
+        section = null;
+      else if (name === "title" || name === "t") chart.title = value;
+      else if (name === "subtitle" || name === "st") chart.subtitle = value;
+      else if (name === "key") chart.key = value || null;
+      else if (name === "capo")
+        chart.capo = Math.min(
+          MAX_CAPO,
+          Math.max(0, Math.trunc(Number(value)) || 0)
+        );
+      else if (name === "tempo") chart.tempo = value;
+      else if (name === "comment" || name === "c" || name === "ci")
+        chart.lines.push({ kind: "label", text: value, section });
+      continue;
+    }
+    if (!line.trim()) {
+      chart.lines.push({ kind: "blank" });
+      continue;
+    }
+    // "[G]Mama said [D/F#]be good" -> (null,"") (G,"Mama said ") (D/F#,"be good")
+    const segments: ChordSegment[] = [];
+    const parts = line.split(/\[([^\]]*)\]/);
+    if (parts[0]) segments.push({ chord: null, text: parts[0] });
+    for (let i = 1; i < parts.length; i += 2)
+      segments.push({ chord: parts[i].trim() || null, text: parts[i + 1] });
+    chart.lines.push({ kind: "lyrics", segments, section });
+  }
+  // A {capo:} chart is written in capo shapes; its chords are kept at
+  // sounding pitch (like {key:}), so the display capo, which starts at the
+  // chart's, turns them back into the written shapes
+  if (chart.capo) {
+    const shapeKey = chart.key && transposeKey(chart.key, -chart.capo);
+    for (const l of chart.lines)
+      if (l.kind === "lyrics")
+        for (const seg of l.segments)
+          if (seg.chord)
+            seg.chord = displayChord(seg.chord, chart.capo, shapeKey, false);
+  }
+  if (!chart.key) {
+    const first = chart.lines
+      .flatMap((l) => (l.kind === "lyrics" ? l.segments : []))
+      .find((s) => s.chord && CHORD_RE.test(s.chord))?.chord;
+    const m = first?.match(CHORD_RE);
+    if (m) chart.key = m[1] + m[2] + (/^m(?!aj)/.test(m[3]) ? "m" : "");
+  }
+  // Collapse runs of blank lines
+  chart.lines = chart.lines.filter(
+    (l, i, all) => l.kind !== "blank" || (i > 0 && all[i - 1].kind !== "blank")
+  );
+  return chart;
+}
+
+// Moves a key ("G", "Em") by `semitones`
+function transposeKey(key: string, semitones: number) {
+  const m = key.match(/^([A-G])([#b]?)(m?)/);
+  if (!m) return key;
+  const minor = m[3];
+  const sharp = SHARP_NOTES[mod12(noteIndex(m[1], m[2]) + semitones)];
+  const flat = FLAT_NOTES[mod12(noteIndex(m[1], m[2]) + semitones)];
+  return (FLAT_KEYS.has(flat + minor) ? flat : sharp) + minor;
+}
+
+// A chord as it should be shown: moved by `semitones` and spelled for
+// `key`, or as a Nashville number relative to `key`. Anything that isn't a
+// chord (N.C., riff names) is left alone.
+function displayChord(
+  chord: string,
+  semitones: number,
+  key: string | null,
+  nashville: boolean
+) {
+  const m = chord.match(CHORD_RE);
+  if (!m) return chord;
+  const [, letter, accidental, quality, bassLetter, bassAccidental] = m;
+  const keyMatch = key?.match(/^([A-G])([#b]?)/);
+  if (nashville && keyMatch) {
+    const tonic = noteIndex(keyMatch[1], keyMatch[2]);
+    const degree = (l: string, a: string) =>
+      NASHVILLE_DEGREES[mod12(noteIndex(l, a) - tonic)];
+    return (
+      degree(letter, accidental) +
+      quality +
+      (bassLetter ? `/${degree(bassLetter, bassAccidental)}` : "")
+    );
+  }
+  const flats = key
+    ? FLAT_KEYS.has(transposeKey(key, semitones))
+    : accidental === "b";
+  const names = flats ? FLAT_NOTES : SHARP_NOTES;
+  const move = (l: string, a: string) =>
+    names[mod12(noteIndex(l, a) + semitones)];
+  return (
+    move(letter, accidental) +
+    quality +
+    (bassLetter ? `/${move(bassLetter, bassAccidental)}` : "")
+  );
+}
+
+// ?transpose=2&capo=3&numbers=1 on the song sheet route; without ?capo the
+// chart's own {capo:} applies
+function chordDisplayFromQuery(
+  query: URLSearchParams,
+  chartCapo = 0
+): ChordDisplay {
+  const int = (name: string, lo: number, hi: number) =>
+    Math.min(hi, Math.max(lo, Math.trunc(Number(query.get(name))) || 0));
+  return {
+    transpose: int("transpose", -11, 11),
+    capo: query.has("capo") ? int("capo", 0, MAX_CAPO) : chartCapo,
+    nashville: query.get("numbers") === "1",
+  };
+}
+
+function chordDisplayQuery(display: ChordDisplay, chartCapo = 0) {
+  const params = new URLSearchParams();
+  if (display.transpose) params.set("transpose", String(display.transpose));
+  if (display.capo !== chartCapo) params.set("capo", String(display.capo));
+  if (display.nashville) params.set("numbers", "1");
+  const query = params.toString();
+  return query ? `?${query}` : "";
+}
+
+/* -------------------------
+ * Story Markdown
+ * Posts are written in a small Markdown subset: # headings, paragraphs,
+ * - / 1. lists, > quotes, ---, **bold**, *italic*, `code`, [links](url) and
+ * [[song:slug]] song references. It is parsed into a tree and rendered as
+ * React elements, never as HTML, and links only keep http(s), mailto and
+ * in-site paths, so a post can't inject markup or script.
+ * ------------------------- */
+type MdInline =
+  | { kind: "text"; text: string }
+  | { kind: "strong" | "em"; children: MdInline[] }
+  | { kind: "code"; text: string }
+  | { kind: "link"; href: string; children: MdInline[] }
+  | { kind: "song"; slug: string }
+  | { kind: "break" };
+
+type MdBlock =
+  | { kind: "heading"; level: 1 | 2 | 3; children: MdInline[] }
+  | { kind: "paragraph"; children: MdInline[] }
+  | { kind: "list"; ordered: boolean; items: MdInline[][] }
+  | { kind: "quote"; children: MdInline[] }
+  | { kind: "rule" };
+
+// [[song:slug]] | [text](href) | **strong** | *em* | `code`
+const MD_INLINE_RE =
+  /\[\[song:([a-z0-9-]+)\]\]|\[([^\]]+)\]\(([^)\s]+)\)|\*\*(.+?)\*\*|\*(.+?)\*|`([^`]+)`/g;
+
+const SONG_REF_RE = /\[\[song:([a-z0-9-]+)\]\]/g;
+
+// The href to keep for a link, or null to drop it (javascript:, data:, ...)
+function safeHref(href: string) {
+  if (/^(https?:|mailto:)/i.test(href)) return href;
+  if (href.startsWith("#/")) return href.slice(1);
+  if (href.startsWith("/") && !href.startsWith("//")) return href;
+  return null;
+}
+
+function parseInline(text: string): MdInline[] {
+  const out: MdInline[] = [];
+  const pushText = (chunk: string) =>
+    chunk.split("\n").forEach((line, i) => {
+      if (i > 0) out.push({ kind: "break" });
+      if (line) out.push({ kind: "text", text: line });
+    });
+  let last = 0;
+  for (const m of text.matchAll(MD_INLINE_RE)) {
+    const [raw, song, label, href, strong, em, code] = m;
+    pushText(text.slice(last, m.index));
+    last = m.index + raw.length;
+    if (song) out.push({ kind: "song", slug: song });
+    else if (label) {
+      const safe = safeHref(href);
+      if (safe)
+        out.push({ kind: "link", href: safe, children: parseInline(label) });
+      else out.push(...parseInline(label));
+    } else if (strong)
+      out.push({ kind: "strong", children: parseInline(strong) });
+    else if (em) out.push({ kind: "em", children: parseInline(em) });
+    else out.push({ kind: "code", text: code });
+  }
+  pushText(text.slice(last));
+  return out;
+}
+
+// Accepts stored text with literal "\\n" separators as well as real newlines
+function parseMarkdown(source: string): MdBlock[] {
+  const blocks: MdBlock[] = [];
+  const lines = toEditable(source).split("\n");
+  let i = 0;
+  // Consecutive lines matching `re`, with the marker stripped
+  const take = (re: RegExp) => {
+    const items: string[] = [];
+    while (i < lines.length && re.test(lines[i]))
+      items.push(lines[i++].replace(re, "").trim());
+    return items;
+  };
+  while (i < lines.length) {
+    const line = lines[i].trim();
+    const heading = line.match(/^(#{1,3})\s+(.*)$/);
+    if (!line) i++;
+    else if (heading) {
+      blocks.push({
+        kind: "heading",
+        level: heading[1].length as 1 | 2 | 3,
+        children: parseInline(heading[2]),
+      });
+      i++;
+    } else if (/^(-{3,}|\*{3,})$/.test(line)) {
+      blocks.push({ kind: "rule" });
+      i++;
+    } else if (/^[-*]\s+/.test(line))
+      blocks.push({
+        kind: "list",
+        ordered: false,
+        items: take(/^\s*[-*]\s+/).map(parseInline),
+      });
+    else if (/^\d+[.)]\s+/.test(line))
+      blocks.push({
+        kind: "list",
+        ordered: true,
+        items: take(/^\s*\d+[.)]\s+/).map(parseInline),
+      });
+    else if (line.startsWith(">"))
+      blocks.push({
+        kind: "quote",
+        children: parseInline(take(/^\s*>\s?/).join("\n")),
+      });
+    else {
+      // A paragraph runs until a blank line or the start of another block
+      const para = [line];
+      i++;
+      while (
+        i < lines.length &&
+        lines[i].trim() &&
+        !/^(#{1,3}\s|[-*]\s|\d+[.)]\s|>|-{3,}$|\*{3,}$)/.test(lines[i].trim())
+      )
+        para.push(lines[i++].trim());
+      blocks.push({
+        kind: "paragraph",
+        children: parseInline(para.join("\n")),
+      });
+    }
+  }
+  return blocks;
+}
+
+// Inline content as plain text, e.g. for excerpts
+function mdPlainText(
+  nodes: MdInline[],
+  songTitle: (slug: string) => string
+): string {
+  return nodes
+    .map((n) => {
+      switch (n.kind) {
+        case "text":
+        case "code":
+          return n.text;
+        case "song":
+          return songTitle(n.slug);
+        case "break":
+          return " ";
+        default:
+          return mdPlainText(n.children, songTitle);
+      }
+    })
+    .join("");
+}
+
+// Slugs of the songs a post mentions, in order, without repeats
+function songRefs(content: string) {
+  return [...new Set([...content.matchAll(SONG_REF_RE)].map((m) => m[1]))];
+}
+
+// Newest first; ties keep the newer id first
+const sortPosts = (posts: Post[]) =>
+  posts.slice().sort((a, b) => b.date.localeCompare(a.date) || b.id - a.id);
+
+/* -------------------------
+ * Mock Data (seed)
+ * ------------------------- */
+const SEED_SONGS: Song[] = [
+  {
+    id: 1,
+    title: "Be Good",
+    slug: "be-good",
+    duration: "3:42",
+    releaseDate: "2025-07-15",
+    genre: "Southern Rock",
+    moods: ["uplifting", "nostalgic"],
+    story:
+      `A feel-good track about small lessons and second chances—` +
+      `\\nBlending southern rock guitars with a sing-along chorus.` +
+      `\\nWritten on a summer afternoon after remembering a childhood lesson.`,
+    lyrics:
+      `Mama said be a good boy... (lyrics preview)\\n` +
+      `Chorus: Be good, be kind, do right...`,
+    chords:
+      `{key: G}\\n{tempo: 96}\\n\\n{comment: Verse}\\n` +
+      `[G]Mama said be a [C]good boy... [G]\\n\\n` +
+      `{start_of_chorus}\\n` +
+      `[G]Be good, [D/F#]be kind, [Em]do [C]right...\\n` +
+      `{end_of_chorus}`,
+    audioUrl: "", // e.g. "/be-good-demo.mp3"
+    likes: 24,
+    visibility: "public",
+  },
+  {
+    id: 2,
+    title: "Diminished, Erased, and Ignored",
+    slug: "diminished-erased-ignored",
+    duration: "4:18",
+    releaseDate: "2025-08-10",
+    genre: "Blues Rock",
+    moods: ["reflective", "defiant"],
+    story:
+      `Gritty blues-rock storytelling with a raw vocal—` +
+      `\\nA song about resilience and finding your footing again.` +
+      `\\nDrawn from late-night writing sessions and raw emotion.`,
+    lyrics:
+      `But what of the man with years behind... (lyrics preview)\\n` +
+      `Chorus: Diminished, erased, ignored...`,
+    audioUrl: "", // e.g. "/diminished-demo.mp3"
+    likes: 31,
+    visibility: "public",
+  },
+  {
+    id: 3,
+    title: "Sunset Heartbreak",
+    slug: "sunset-heartbreak",
+    duration: "3:58",
+    releaseDate: "2025-06-14",
+    genre: "Country Ballad",
+    moods: ["somber", "tender"],
+    story:
+      `A quiet ballad set at dusk—` +
+      `\\nTwo people watching the sun slip under the horizon on their last day together.` +
+      `\\nCaptures the bittersweet calm of endings and memory.`,
+    lyrics:
+      `We watched the sun lay down its crown... (lyrics preview)\\n` +
+      `Chorus: Sunset fading, holding on...`,
+    audioUrl: "",
+    likes: 17,
+    visibility: "private",
+  },
+];
+
+const SEED_POSTS: Post[] = [
+  {
+    id: 1,
+    title: "The riff that sparked a chorus",
+    slug: "riff-that-sparked",
+    date: "2025-08-01",
+    tags: ["songwriting"],
+    status: "published",
+    songIds: [1],
+    content:
+      `I was noodling on a pentatonic lick in G—\\n` +
+      `And the hook for [[song:be-good]] fell into place almost by accident.\\n` +
+      `It reminded me that inspiration often comes when least expected.\\n\\n` +
+      `[[song:be-good]]`,
+  },
+  {
+    id: 2,
+    title: "Choosing a tempo for a story",
+    slug: "choosing-tempo-story",
+    date: "2025-07-20",
+    tags: ["craft", "life"],
+    status: "published",
+    songIds: [],
+    content:
+      `When the lyrics feel heavy, I try a slower shuffle before committing.\\n` +
+      `The groove sets the mood, and the right tempo can completely change the story.\\n` +
+      `Sometimes it takes hours of experimentation to find what clicks.`,
+  },
+];
+
+/* -------------------------
+ * useLocalStorage hook
+ * ------------------------- */
+function useLocalStorage<T>(
+  key: string,
+  initialValue: T,
+  schema: Validator<T>
+) {
+  const [value, setValue] = useState<T>(() => {
+    ensureStorageMigrated();
+    try {
+      const item = window.localStorage.getItem(key);
+      if (!item) return initialValue;
+      const result = validate(schema, JSON.parse(item), key);
+      if (result.ok) return result.value;
+      console.warn(`Ignoring invalid stored data for ${key}:`, result.errors);
+      return initialValue;
+    } catch {
+      return initialValue;
+    }
+  });
+  useEffect(() => {
+    try {
+      window.localStorage.setItem(key, JSON.stringify(value));
+    } catch {
+      /* ignore write errors */
+    }
+  }, [key, value]);
+  return [value, setValue] as const;
+}
+
+/* -------------------------
+ * Audio file storage (IndexedDB)
+ * Uploaded files are stored as blobs keyed by song id. Songs reference them
+ * with an "idb:<id>@<storedAt>" audioUrl; the timestamp changes on every
+ * upload so the player reloads a replaced file.
+ * ------------------------- */
+const AUDIO_DB_NAME = "msw-audio";
+const AUDIO_STORE = "tracks";
+
+type StoredAudio = {
+  songId: number;
+  name: string;
+  type: string;
+  size: number;
+  storedAt: number;
+  blob: Blob;
+};
+
+type StoredAudioInfo = Omit<StoredAudio, "blob">;
+
+let audioDbPromise: Promise<IDBDatabase> | null = null;
+
+function openAudioDb() {
+  if (!audioDbPromise) {
+    audioDbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (!("indexedDB" in window)) {
+        reject(new Error("IndexedDB is not available in this browser."));
+        return;
+      }
+      const req = indexedDB.open(AUDIO_DB_NAME, 1);
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(AUDIO_STORE, { keyPath: "songId" });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    }).catch((err) => {
+      audioDbPromise = null;
+      throw err;
+    });
+  }
+  return audioDbPromise;
+}
+
+async function audioTx<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+) {
+  const db = await openAudioDb();
+  return new Promise<T>((resolve, reject) => {
+    const req = run(db.transaction(AUDIO_STORE, mode).objectStore(AUDIO_STORE));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function putAudio(songId: number, file: Blob & { name?: string }) {
+  const record: StoredAudio = {
+    songId,
+    name: file.name || `song-${songId}`,
+    type: file.type,
+    size: file.size,
+    storedAt: Date.now(),
+    blob: file,
+  };
+  await audioTx("readwrite", (store) => store.put(record));
+  return `idb:${songId}@${record.storedAt}`;
+}
+
+async function getAudio(songId: number) {
+  const record = await audioTx<StoredAudio | undefined>("readonly", (store) =>
+    store.get(songId)
+  );
+  return record?.blob ?? null;
+}
+
+async function deleteAudio(songId: number) {
+  await audioTx("readwrite", (store) => store.delete(songId));
+}
+
+async function clearAudio() {
+  await audioTx("readwrite", (store) => store.clear());
+}
+
+async function listAudio(): Promise<StoredAudioInfo[]> {
+  const records = await audioTx<StoredAudio[]>("readonly", (store) =>
+    store.getAll()
+  );
+  return records.map(({ blob: _blob, ...info }) => info);
+}
+
+function storedAudioId(audioUrl: string) {
+  const m = /^idb:(\d+)/.exec(audioUrl);
+  return m ? Number(m[1]) : null;
+}
+
+// Turns a song's audioUrl into something an <audio> element can play.
+// Stored files become fresh object URLs (caller revokes them).
+async function resolveAudioUrl(audioUrl: string) {
+  const id = storedAudioId(audioUrl);
+  if (id == null) return audioUrl;
+  const blob = await getAudio(id);
+  return blob ? URL.createObjectURL(blob) : "";
+}
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ["KB", "MB", "GB"];
+  let n = bytes / 1024;
+  let i = 0;
+  while (n >= 1024 && i < units.length - 1) {
+    n /= 1024;
+    i++;
+  }
+  return `${n.toFixed(n < 10 ? 1 : 0)} ${units[i]}`;
+}
+
+/* -------------------------
+ * Audio analysis (Web Audio + tags)
+ * Attached audio is decoded once to get its real length, a waveform
+ * (WAVEFORM_BARS peaks, 0–1, loudest bar = 1) and its integrated loudness,
+ * stored on the song as the gain that brings it to TARGET_LUFS.
+ * Tags are read from ID3v2 (MP3), FLAC and Ogg Vorbis/Opus comments;
+ * linked files need CORS headers that let this site read them.
+ * ------------------------- */
+const WAVEFORM_BARS = 96;
+const TAG_SCAN_BYTES = 4 * 1024 * 1024; // FLAC/Ogg metadata sits up front
+const TARGET_LUFS = -14;
+const MAX_BOOST_DB = 12;
+
+type AudioTags = {
+  title?: string;
+  artist?: string;
+  album?: string;
+  genre?: string;
+  date?: string; // "2021" or "2021-06-04"
+  cover?: Blob;
+};
+
+type AudioAnalysis = {
+  duration: number; // seconds
+  peaks: number[];
+  loudness: number | null; // LUFS
+  gainDb: number | null; // see normalizationGain
+  tags: AudioTags;
+};
+
+// Highest absolute sample per bar across all channels, scaled to 0–1
+function computePeaks(channels: Float32Array[], bars = WAVEFORM_BARS) {
+  const length = channels[0]?.length ?? 0;
+  if (!length) return [];
+  const peaks: number[] = [];
+  for (let b = 0; b < bars; b++) {
+    const start = Math.floor((b * length) / bars);
+    const end = Math.max(start + 1, Math.floor(((b + 1) * length) / bars));
+    let max = 0;
+    for (const data of channels) {
+      for (let i = start; i < end && i < length; i++) {
+        const s = Math.abs(data[i]);
+        if (s > max) max = s;
+      }
+    }
+    peaks.push(max);
+  }
+  const top = Math.max(...peaks) || 1;
+  return peaks.map((p) => Math.round((p / top) * 100) / 100);
+}
+
+async function loadAudioBlob(audioUrl: string) {
+  const id = storedAudioId(audioUrl);
+  if (id != null) {
+    const blob = await getAudio(id);
+    if (!blob)
+      throw new Error("The uploaded file is missing from this browser.");
+    return blob;
+  }
+  let res: Response;
+  try {
+    res = await fetch(audioUrl);
+  } catch {
+    throw new Error(
+      "The audio host doesn't let this site read the file (CORS), so it can't be analysed."
+    );
+  }
+  if (!res.ok)
+    throw new Error(`Could not download the audio (HTTP ${res.status}).`);
+  return res.blob();
+}
+
+async function decodeAudio(blob: Blob) {
+  // An offline context decodes without touching the audio hardware
+  const ctx = new OfflineAudioContext(1, 1, 44100);
+  try {
+    return await ctx.decodeAudioData(await blob.arrayBuffer());
+  } catch {
+    throw new Error("This browser could not decode the audio file.");
+  }
+}
+
+async function analyzeAudio(source: Blob | string): Promise<AudioAnalysis> {
+  const blob =
+    typeof source === "string" ? await loadAudioBlob(source) : source;
+  const [buffer, tags] = await Promise.all([
+    decodeAudio(blob),
+    readAudioTags(blob).catch((): AudioTags => ({})),
+  ]);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) =>
+    buffer.getChannelData(i)
+  );
+  let peak = 0;
+  for (const data of channels)
+    for (let i = 0; i < data.length; i++)
+      peak = Math.max(peak, Math.abs(data[i]));
+  const loudness = integratedLoudness(channels, buffer.sampleRate);
+  return {
+    duration: buffer.duration,
+    peaks: computePeaks(channels),
+    loudness,
+    gainDb: normalizationGain(loudness, peak),
+    tags,
+  };
+}
+
+// One analysis per audio URL at a time: playing a song while its upload is
+// still being analysed shares that run instead of decoding the file twice
+const analysesInFlight = new Map<string, Promise<AudioAnalysis>>();
+
+function analyzeSongAudio(audioUrl: string, source: Blob | string = audioUrl) {
+  let pending = analysesInFlight.get(audioUrl);
+  if (!pending) {
+    pending = analyzeAudio(source).finally(() =>
+      analysesInFlight.delete(audioUrl)
+    );
+    analysesInFlight.set(audioUrl, pending);
+  }
+  return pending;
+}
+
+// ITU-R BS.1770 K-weighting for a sample rate: a high-shelf pre-filter
+// then the RLB high-pass, as [b0, b1, b2, a1, a2] biquads
+function kWeighting(sampleRate: number) {
+  let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  const Q1 = 0.7071752369554196;
+  const Vh = 10 ** (3.999843853973347 / 20);
+  const Vb = Vh ** 0.4996667741545416;
+  let a0 = 1 + K / Q1 + K * K;
+  const shelf = [
+    (Vh + (Vb * K) / Q1 + K * K) / a0,
+    (2 * (K * K - Vh)) / a0,
+    (Vh - (Vb * K) / Q1 + K * K) / a0,
+    (2 * (K * K - 1)) / a0,
+    (1 - K / Q1 + K * K) / a0,
+  ];
+  K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  const Q2 = 0.5003270373238773;
+  a0 = 1 + K / Q2 + K * K;
+  const highPass = [
+    1,
+    -2,
+    1,
+    (2 * (K * K - 1)) / a0,
+    (1 - K / Q2 + K * K) / a0,
+  ];
+  return [shelf, highPass];
+}
+
+// BS.1770 channel weights in Web Audio's channel order: quad is L R SL SR,
+// 5.0 is L R C SL SR and 5.1 is L R C LFE SL SR. The LFE is left out.
+function channelWeights(count: number) {
+  if (count === 4) return [1, 1, 1.41, 1.41];
+  if (count === 5) return [1, 1, 1, 1.41, 1.41];
+  if (count === 6) return [1, 1, 1, 0, 1.41, 1.41];
+  return Array<number>(count).fill(1);
+}
+
+// Integrated loudness (LUFS) with the EBU R128 gates: 400 ms blocks
+// overlapping by 75%, an absolute gate at -70 LUFS and a relative gate
+// 10 LU below the ungated level. Null for silence or very short clips.
+function integratedLoudness(channels: Float32Array[], sampleRate: number) {
+  const hop = Math.round(sampleRate / 10);
+  const hops = Math.floor((channels[0]?.length ?? 0) / hop);
+  const energy = new Float64Array(hops); // weighted mean square per hop
+  const [[b0, b1, b2, a1, a2], [c0, c1, c2, d1, d2]] = kWeighting(sampleRate);
+  const weights = channelWeights(channels.length);
+  channels.forEach((data, c) => {
+    const weight = weights[c];
+    if (!weight) return;
+    let x1 = 0,
+      x2 = 0,
+      y1 = 0,
+      y2 = 0,
+      z1 = 0,
+      z2 = 0;
+    for (let h = 0; h < hops; h++) {
+      let sum = 0;
+      for (let i = h * hop, end = i + hop; i < end; i++) {
+        const x = data[i];
+        const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+        const z = c0 * y + c1 * y1 + c2 * y2 - d1 * z1 - d2 * z2;
+        x2 = x1;
+        x1 = x;
+        y2 = y1;
+        y1 = y;
+        z2 = z1;
+        z1 = z;
+        sum += z * z;
+      }
+      energy[h] += (weight * sum) / hop;
+    }
+  });
+
+  const blocks: number[] = [];
+  for (let h = 0; h + 4 <= hops; h++)
+    blocks.push(
+      (energy[h] + energy[h + 1] + energy[h + 2] + energy[h + 3]) / 4
+    );
+  const lufs = (z: number) => -0.691 + 10 * Math.log10(z);
+  const mean = (zs: number[]) => zs.reduce((a, z) => a + z, 0) / zs.length;
+  const audible = blocks.filter((z) => z > 0 && lufs(z) > -70);
+  if (!audible.length) return null;
+  const gate = lufs(mean(audible)) - 10;
+  return lufs(mean(audible.filter((z) => lufs(z) > gate)));
+}
+
+// Gain (dB) that brings a track to TARGET_LUFS without pushing its sample
+// peak above -1 dBFS; null when the track is silent
+function normalizationGain(loudness: number | null, peak: number) {
+  if (loudness == null || peak <= 0) return null;
+  const headroom = -1 - 20 * Math.log10(peak);
+  const gain = Math.min(TARGET_LUFS - loudness, headroom, MAX_BOOST_DB);
+  return Math.round(gain * 10) / 10;
+}
+
+function formatGain(db: number) {
+  return `${db > 0 ? "+" : db < 0 ? "−" : "±"}${Math.abs(db).toFixed(1)} dB`;
+}
+
+async function readAudioTags(blob: Blob): Promise<AudioTags> {
+  const head = new Uint8Array(await blob.slice(0, 10).arrayBuffer());
+  if (ascii(head, 0, 3) === "ID3") {
+    const size = syncsafe(head, 6);
+    return readId3(
+      new Uint8Array(await blob.slice(0, 10 + size).arrayBuffer())
+    );
+  }
+  const bytes = new Uint8Array(
+    await blob.slice(0, TAG_SCAN_BYTES).arrayBuffer()
+  );
+  if (ascii(bytes, 0, 4) === "fLaC") return readFlacTags(bytes);
+  if (ascii(bytes, 0, 4) === "OggS") return readOggTags(bytes);
+  return {};
+}
+
+function ascii(bytes: Uint8Array, start: number, length: number) {
+  return String.fromCharCode(...bytes.subarray(start, start + length));
+}
+
+function syncsafe(bytes: Uint8Array, at: number) {
+  return (
+    ((bytes[at] & 0x7f) << 21) |
+    ((bytes[at + 1] & 0x7f) << 14) |
+    ((bytes[at + 2] & 0x7f) << 7) |
+    (bytes[at + 3] & 0x7f)
+  );
+}
+
+function uint32(bytes: Uint8Array, at: number, littleEndian = false) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return view.getUint32(at, littleEndian);
+}
+
+// Decodes an ID3 text value; multiple values (v2.4) keep only the first
+const ID3_ENCODINGS = ["latin1", "utf-16", "utf-16be", "utf-8"];
+
+function id3Text(bytes: Uint8Array, encoding: number) {
+  let label = ID3_ENCODINGS[encoding] ?? "latin1";
+  let data = bytes;
+  if (label === "utf-16") {
+    const bigEndian = data[0] === 0xfe && data[1] === 0xff;
+    label = bigEndian ? "utf-16be" : "utf-16le";
+    if (data[0] === 0xff || data[0] === 0xfe) data = data.subarray(2);
+  }
+  const text = new TextDecoder(label).decode(data);
+  return text.split("\0")[0].trim();
+}
+
+// Index just past the string terminator (two zero bytes for UTF-16)
+function id3StringEnd(bytes: Uint8Array, from: number, encoding: number) {
+  const wide = encoding === 1 || encoding === 2;
+  for (let i = from; i < bytes.length; i += wide ? 2 : 1) {
+    if (bytes[i] === 0 && (!wide || bytes[i + 1] === 0))
+      return i + (wide ? 2 : 1);
+  }
+  return bytes.length;
+}
+
+const ID3_FIELDS: Record<string, keyof Omit<AudioTags, "cover">> = {
+  TIT2: "title",
+  TT2: "title",
+  TPE1: "artist",
+  TP1: "artist",
+  TALB: "album",
+  TAL: "album",
+  TCON: "genre",
+  TCO: "genre",
+  TDRC: "date",
+  TYER: "date",
+  TYE: "date",
+};
+
+// Undoes unsynchronisation: writers put a 0x00 after every 0xFF
+function resync(bytes: Uint8Array) {
+  const out = new Uint8Array(bytes.length);
+  let n = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    out[n++] = bytes[i];
+    if (bytes[i] === 0xff && bytes[i + 1] === 0) i++;
+  }
+  return out.subarray(0, n);
+}
+
+function readId3(tag: Uint8Array): AudioTags {
+  const version = tag[3];
+  const flags = tag[5];
+  const unsynced = (flags & 0x80) !== 0;
+  // v2.2 used this bit for a compression scheme that was never defined
+  if (version === 2 && flags & 0x40) return {};
+  let bytes = tag.subarray(0, Math.min(tag.length, 10 + syncsafe(tag, 6)));
+  if (unsynced && version < 4) {
+    // Before v2.4 the whole tag is unsynchronised, frame headers included
+    const frames = resync(bytes.subarray(10));
+    bytes = new Uint8Array(10 + frames.length);
+    bytes.set(tag.subarray(0, 10));
+    bytes.set(frames, 10);
+  }
+  const end = bytes.length;
+  const idLength = version === 2 ? 3 : 4;
+  const headerLength = version === 2 ? 6 : 10;
+  let at = 10;
+  if (flags & 0x40 && version > 2) {
+    // Extended header: v2.4 counts its own size, v2.3 does not
+    at += version === 4 ? syncsafe(bytes, at) : uint32(bytes, at) + 4;
+  }
+  const tags: AudioTags = {};
+  while (at + headerLength <= end) {
+    const id = ascii(bytes, at, idLength);
+    if (!/^[A-Z0-9]+$/.test(id)) break; // padding
+    const size =
+      version === 2
+        ? (bytes[at + 3] << 16) | (bytes[at + 4] << 8) | bytes[at + 5]
+        : version === 4
+        ? syncsafe(bytes, at + 4)
+        : uint32(bytes, at + 4);
+    const frameFlags = version === 2 ? 0 : bytes[at + 9];
+    let body = bytes.subarray(at + headerLength, at + headerLength + size);
+    at += headerLength + size;
+    // Compressed and encrypted frames are skipped; a group id byte and a
+    // v2.4 data length indicator sit in front of the frame data
+    if (version === 3) {
+      if (frameFlags & 0xc0) continue;
+      if (frameFlags & 0x20) body = body.subarray(1);
+    } else if (version === 4) {
+      if (frameFlags & 0x0c) continue;
+      if (frameFlags & 0x40) body = body.subarray(1);
+      if (frameFlags & 0x01) body = body.subarray(4);
+      if (frameFlags & 0x02 || unsynced) body = resync(body);
+    }
+    const field = ID3_FIELDS[id];
+    if (field && body.length > 1) {
+      let value = id3Text(body.subarray(1), body[0]);
+      // Genres may be ID3v1 numbers like "(17)"; keep only real names
+      if (field === "genre")
+        value = value.replace(/^\(\d+\)/, "").replace(/^\d+$/, "");
+      if (value && !tags[field]) tags[field] = value;
+    } else if ((id === "APIC" || id === "PIC") && !tags.cover && body.length) {
+      const encoding = body[0];
+      let mime: string;
+      let p: number;
+      if (id === "PIC") {
+        const format = ascii(body, 1, 3).toLowerCase();
+        mime = format === "png" ? "image/png" : "image/jpeg";
+        p = 4;
+      } else {
+        p = id3StringEnd(body, 1, 0);
+        mime = ascii(body, 1, p - 2) || "image/jpeg";
+      }
+      p = id3StringEnd(body, p + 1, encoding); // skip picture type + description
+      tags.cover = new Blob([body.slice(p)], { type: mime });
+    }
+  }
+  return tags;
+}
+
+const VORBIS_FIELDS: Record<string, keyof Omit<AudioTags, "cover">> = {
+  TITLE: "title",
+  ARTIST: "artist",
+  ALBUM: "album",
+  GENRE: "genre",
+  DATE: "date",
+};
+
+function readFlacPicture(bytes: Uint8Array) {
+  let p = 4;
+  const mimeLength = uint32(bytes, p);
+  const mime = ascii(bytes, p + 4, mimeLength);
+  p += 4 + mimeLength;
+  p += 4 + uint32(bytes, p); // description
+  p += 16; // width, height, depth, colours
+  const length = uint32(bytes, p);
+  return new Blob([bytes.slice(p + 4, p + 4 + length)], {
+    type: mime || "image/jpeg",
+  });
+}
+
+function readVorbisComments(bytes: Uint8Array, tags: AudioTags) {
+  const decoder = new TextDecoder();
+  let p = 4 + uint32(bytes, 0, true); // vendor string
+  const count = uint32(bytes, p, true);
+  p += 4;
+  for (let i = 0; i < count && p + 4 <= bytes.length; i++) {
+    const length = uint32(bytes, p, true);
+    const entry = decoder.decode(bytes.subarray(p + 4, p + 4 + length));
+    p += 4 + length;
+    const eq = entry.indexOf("=");
+    const key = entry.slice(0, eq).toUpperCase();
+    const value = entry.slice(eq + 1).trim();
+    const field = VORBIS_FIELDS[key];
+    if (field && value && !tags[field]) tags[field] = value;
+    if (key === "METADATA_BLOCK_PICTURE" && !tags.cover) {
+      try {
+        tags.cover = readFlacPicture(base64ToBytes(value));
+      } catch {
+        /* malformed picture */
+      }
+    }
+  }
+  return tags;
+}
+
+function readFlacTags(bytes: Uint8Array): AudioTags {
+  const tags: AudioTags = {};
+  let at = 4;
+  while (at + 4 <= bytes.length) {
+    const type = bytes[at] & 0x7f;
+    const last = bytes[at] & 0x80;
+    const length = (bytes[at + 1] << 16) | (bytes[at + 2] << 8) | bytes[at + 3];
+    const body = bytes.subarray(at + 4, at + 4 + length);
+    if (type === 4) readVorbisComments(body, tags);
+    if (type === 6 && !tags.cover) tags.cover = readFlacPicture(body);
+    if (last) break;
+    at += 4 + length;
+  }
+  return tags;
+}
+
+// The comment header is the second packet of the stream, possibly
+// spread over several pages
+function readOggTags(bytes: Uint8Array): AudioTags {
+  const packets: Uint8Array[] = [];
+  let current: number[] = [];
+  let at = 0;
+  while (packets.length < 2 && ascii(bytes, at, 4) === "OggS") {
+    const segments = bytes[at + 26];
+    let p = at + 27 + segments;
+    for (let i = 0; i < segments; i++) {
+      const lace = bytes[at + 27 + i];
+      current.push(...bytes.subarray(p, p + lace));
+      p += lace;
+      if (lace < 255) {
+        packets.push(Uint8Array.from(current));
+        current = [];
+      }
+    }
+    at = p;
+  }
+  const comment = packets[1];
+  if (!comment) return {};
+  const prefix = ascii(comment, 0, 8);
+  if (prefix === "OpusTags") return readVorbisComments(comment.subarray(8), {});
+  if (prefix.slice(1, 7) === "vorbis")
+    return readVorbisComments(comment.subarray(7), {});
+  return {};
+}
+
+/* -------------------------
+ * Private section access
+ * The passphrase is never stored: unlocking derives a PBKDF2-SHA256 hash
+ * with WebCrypto and compares it to PRIVATE_CONFIG.hash. The salt and
+ * hash come from the build (VITE_PRIVATE_SALT / VITE_PRIVATE_HASH, e.g. in
+ * .env.local); without them the section can't be unlocked. Generate a
+ * pair for a passphrase, e.g. in Node:
+ *   node -e 'const c=require("crypto"),s=c.randomBytes(16);console.log(
+ *     s.toString("base64"),c.pbkdf2Sync("NEW PASSPHRASE",s,210000,32,
+ *     "sha256").toString("base64"))'
+ * ------------------------- */
+const PRIVATE_CONFIG = {
+  salt: import.meta.env.VITE_PRIVATE_SALT ?? "",
+  hash: import.meta.env.VITE_PRIVATE_HASH ?? "",
+  iterations: 210000,
+  unlockMinutes: 60, // how long an unlock lasts
+  maxAttempts: 5, // failures before a lockout
+  lockoutMinutes: 5,
+};
+
+function base64ToBytes(b64: string) {
+  return Uint8Array.from(atob(b64), (c) => c.charCodeAt(0));
+}
+
+function bytesToBase64(bytes: Uint8Array) {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+async function derivePassphraseHash(
+  passphrase: string,
+  salt: string,
+  iterations: number
+) {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveBits"]
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", salt: base64ToBytes(salt), iterations, hash: "SHA-256" },
+    key,
+    256
+  );
+  return bytesToBase64(new Uint8Array(bits));
+}
+
+// Compares every character so timing doesn't reveal how much matched
+function constantTimeEqual(a: string, b: string) {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++)
+    diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  return diff === 0;
+}
+
+const privateConfigured = !!(PRIVATE_CONFIG.salt && PRIVATE_CONFIG.hash);
+
+async function verifyPassphrase(passphrase: string) {
+  if (!privateConfigured) return false;
+  const hash = await derivePassphraseHash(
+    passphrase,
+    PRIVATE_CONFIG.salt,
+    PRIVATE_CONFIG.iterations
+  );
+  return constantTimeEqual(hash, PRIVATE_CONFIG.hash);
+}
+
+/* -------------------------
+ * Lightweight Self-Tests
+ * ------------------------- */
+function runSelfTests(songs: Song[]) {
+  console.group("✅ Running UI self-tests");
+  try {
+    const checked = validate(SongListSchema, songs, "songs");
+    console.assert(
+      checked.ok,
+      `Song schema invalid: ${checked.ok ? "" : checked.errors.join("; ")}`
+    );
+    songs.forEach((s, i) => {
+      console.assert(
+        typeof s.title === "string" && s.title.length > 0,
+        `Song[${i}] title invalid`
+      );
+      console.assert(
+        typeof s.slug === "string" && /^[a-z0-9-]+$/i.test(s.slug),
+        `Song[${i}] slug invalid`
+      );
+      console.assert(
+        typeof s.lyrics === "string",
+        `Song[${i}] lyrics must be a string`
+      );
+      console.assert(Array.isArray(s.moods), `Song[${i}] moods must be array`);
+    });
+
+    const posts = validate(v.array(PostSchema), SEED_POSTS, "posts");
+    console.assert(
+      posts.ok,
+      `Post schema invalid: ${posts.ok ? "" : posts.errors.join("; ")}`
+    );
+
+    const v1Backup = {
+      songs: songs.map((s) => ({ ...s, audioUrl: "blob:stale" })),
+      privateUnlocked: true,
+    };
+    const upgraded = migrateData(v1Backup, 1);
+    console.assert(
+      upgraded.ok &&
+        validate(BackupSchema, upgraded.data).ok &&
+        !("privateUnlocked" in upgraded.data),
+      "v1 backup should migrate to a valid current backup"
+    );
+    console.assert(
+      v1Backup.songs.every((s) => s.audioUrl === "blob:stale"),
+      "Migrations must not mutate their input"
+    );
+    console.assert(
+      !migrateData({}, DATA_VERSION + 1).ok,
+      "Data from a newer version should be refused"
+    );
+
+    const site: SiteData = {
+      songs,
+      liked: {},
+      comments: {},
+      guestbook: [],
+      sortMode: "newest",
+      playlists: [],
+      posts: SEED_POSTS,
+    };
+    const selfDiff = diffBackup(site, { songs });
+    console.assert(
+      selfDiff.songs?.added.length === 0 &&
+        selfDiff.songs?.changed.length === 0 &&
+        selfDiff.songs?.unchanged === songs.length,
+      "Diffing data against itself should find no changes"
+    );
+    console.assert(
+      mergeBackup(site, { songs }, "local").songs.length === songs.length,
+      "Merging data into itself should not duplicate songs"
+    );
+    const list = makePlaylist("Road Trip", [], [songs[0]?.id ?? 1]);
+    const withList = mergeBackup(site, { playlists: [list] }, "newer");
+    console.assert(
+      withList.playlists[0]?.slug === "road-trip" &&
+        mergeBackup(withList, { playlists: [list] }, "newer").playlists
+          .length === 1,
+      "Merging a playlist twice should not duplicate it"
+    );
+    const draftPost: Post = {
+      ...SEED_POSTS[0],
+      id: 1,
+      slug: "new-draft",
+      status: "draft",
+    };
+    const withPost = mergeBackup(site, { posts: [draftPost] }, "newer");
+    console.assert(
+      withPost.posts.length === SEED_POSTS.length + 1 &&
+        new Set(withPost.posts.map((p) => p.id)).size === withPost.posts.length,
+      "Merging a new post should give it a free id"
+    );
+    const uplifting = smartPlaylistSongs(
+      BUILT_IN_PLAYLISTS[0].smart!,
+      songs,
+      {}
+    );
+    console.assert(
+      uplifting.every(
+        (s) => s.moods.includes("uplifting") && s.visibility === "public"
+      ),
+      "Built-in Uplifting playlist should only pick public uplifting songs"
+    );
+    console.assert(
+      smartPlaylistSongs(
+        {
+          match: "any",
+          rules: [{ kind: "liked" }, { kind: "likes", min: 1e9 }],
+          sort: "az",
+          limit: null,
+        },
+        songs,
+        { [songs[0]?.id ?? 1]: true }
+      ).length === Math.min(1, songs.length),
+      "OR rules should match songs that satisfy either rule"
+    );
+
+    const index = buildSearchIndex(searchDocuments(songs, SEED_POSTS, {}));
+    console.assert(
+      foldText("Café Señor") === "cafe senor",
+      "Search should fold accents and case"
+    );
+    console.assert(
+      search(index, "inspir")[0]?.doc.type === "post",
+      "Search should match word prefixes inside post content"
+    );
+    console.assert(
+      search(index, "zzzz-no-such-word").length === 0,
+      "Search should require every term to match"
+    );
+
+    const bad = validate(SongSchema, {
+      ...songs[0],
+      mood: [],
+      moods: undefined,
+    });
+    console.assert(!bad.ok, "Schema should reject a song missing moods");
+
+    songs.forEach((s) => {
+      const path = `/song/${s.slug}`;
+      console.assert(
+        path.startsWith("/song/"),
+        `Route path malformed for ${s.title}`
+      );
+    });
+
+    const q = songs[0]?.moods?.[0]?.toUpperCase?.() || "UPLIFTING";
+    const found = songs.filter(
+      (s) =>
+        s.title.toLowerCase().includes(q.toLowerCase()) ||
+        s.moods.join(" ").toLowerCase().includes(q.toLowerCase())
+    );
+    console.assert(
+      found.length >= 1,
+      "Search by mood should find at least one song"
+    );
+
+    const songRoute = matchRoute("/song/be-good?t=30");
+    console.assert(
+      songRoute.name === "song" &&
+        songRoute.params.slug === "be-good" &&
+        songRoute.query.get("t") === "30",
+      "Router should match /song/:slug with its query"
+    );
+    console.assert(
+      matchRoute("/song/").name === "notfound" &&
+        matchRoute("/admin/songs").name === "admin" &&
+        matchRoute("/nope").name === "notfound",
+      "Empty params and unknown paths should be 404s"
+    );
+
+    const lrc = parseLrc("[00:12.00][00:45.50]Chorus\n[00:01.20]Verse");
+    console.assert(
+      lrc.length === 3 &&
+        lrc[0].text === "Verse" &&
+        lrc[2].time === 45.5 &&
+        activeLyricLine(lrc, 13) === 1,
+      "LRC parser should expand repeated stamps and sort lines by time"
+    );
+    console.assert(
+      parseLrc(toLrc(SEED_SONGS[0], lrc)).every(
+        (l, i) => l.time === lrc[i].time
+      ),
+      "LRC export should round-trip"
+    );
+
+    const md = parseMarkdown(
+      "# Hi\\n[x](javascript:alert(1)) [[song:be-good]]\\n- a\\n- b"
+    );
+    console.assert(
+      md.length === 3 &&
+        md[1].kind === "paragraph" &&
+        !md[1].children.some((n) => n.kind === "link") &&
+        md[1].children.some((n) => n.kind === "song") &&
+        md[2].kind === "list" &&
+        md[2].items.length === 2,
+      "Markdown should parse blocks, song refs and drop unsafe links"
+    );
+
+    const parsed = parseSongQuery('genre:"blues rock" likes:>20 year:abc riff');
+    console.assert(
+      parsed.text === "riff" &&
+        parsed.invalid.length === 1 &&
+        parsed.invalid[0] === "year:abc",
+      "Query parser should split filters, free text and bad values"
+    );
+    const filtered = songs.filter((s) =>
+      matchesSongQuery(parseSongQuery("genre:blues genre:southern"), s, {})
+    );
+    console.assert(
+      filtered.every((s) => /blues|southern/i.test(s.genre)),
+      "Filters on the same field should be OR'ed"
+    );
+    console.assert(
+      toggleQueryFilter(
+        toggleQueryFilter("x", "mood", "tender"),
+        "mood",
+        "Tender"
+      ) === "x",
+      "Toggling a facet twice should restore the query"
+    );
+
+    const ramp = Float32Array.from({ length: 400 }, (_, i) =>
+      i % 2 ? -i / 400 : 0
+    );
+    const peaks = computePeaks([ramp], 4);
+    console.assert(
+      peaks.length === 4 && peaks[3] === 1 && peaks[0] < peaks[1],
+      "Waveform peaks should be normalised to the loudest bar"
+    );
+
+    const id3Frame = (id: string, flags: number, body: number[]) => [
+      ...Array.from(id, (c) => c.charCodeAt(0)),
+      ...[0, 0, 0, body.length, 0, flags],
+      ...body,
+    ];
+    const id3Tag = (version: number, flags: number, frames: number[]) =>
+      Uint8Array.from(
+        [0x49, 0x44, 0x33, version, 0, flags, 0, 0, 0].concat(
+          frames.length,
+          frames
+        )
+      );
+    console.assert(
+      readId3(id3Tag(3, 0x80, id3Frame("TIT2", 0, [0, 0x41, 0xff, 0])))
+        .title === "Aÿ" &&
+        readId3(
+          id3Tag(4, 0, [
+            ...id3Frame("TIT2", 0x09, [0, 0, 0, 9, 1, 2, 3]),
+            ...id3Frame("TIT2", 0x01, [0, 0, 0, 2, 0, 0x42]),
+          ])
+        ).title === "B",
+      "ID3 should undo unsynchronisation and skip compressed frames"
+    );
+
+    // A full-scale 997 Hz sine reads -3.01 LUFS on a BS.1770 meter
+    const sine = Float32Array.from({ length: 48000 }, (_, i) =>
+      Math.sin((2 * Math.PI * 997 * i) / 48000)
+    );
+    const lufs = integratedLoudness([sine], 48000) ?? 0;
+    console.assert(
+      Math.abs(lufs + 3.01) < 0.05,
+      "Loudness meter should match the BS.1770 reference tone"
+    );
+    const quiet = new Float32Array(sine.length);
+    const lfeOnly = [quiet, quiet, quiet, sine, quiet, quiet];
+    console.assert(
+      integratedLoudness(lfeOnly, 48000) === null,
+      "The LFE channel of a 5.1 mix should not count towards loudness"
+    );
+    console.assert(
+      normalizationGain(-30, 0.5) === 5 && normalizationGain(-8, 1) === -6,
+      "Normalisation gain should respect the peak headroom"
+    );
+
+    const chart = parseChordPro(SEED_SONGS[0].chords ?? "");
+    console.assert(
+      chart.key === "G" &&
+        chart.lines.some((l) => l.kind === "label" && l.section === "chorus"),
+      "ChordPro should read {key:} and chorus sections"
+    );
+    console.assert(
+      displayChord("D/F#", 2, "G", false) === "E/G#" &&
+        displayChord("Bb", -1, "F", false) === "A",
+      "Transposing should move root and bass notes"
+    );
+    console.assert(
+      displayChord("Em7", 0, "G", true) === "6m7" &&
+        displayChord("D/F#", 2, "G", true) === "5/7",
+      "Nashville numbers should be relative to the (transposed) key"
+    );
+    const capoChart = parseChordPro("{capo: 2}\n[G]Be [D/F#]good");
+    const capoDisplay = chordDisplayFromQuery(new URLSearchParams(""), 2);
+    const shapes = capoChart.lines.flatMap((l) =>
+      l.kind === "lyrics"
+        ? l.segments.map((seg) =>
+            displayChord(
+              seg.chord ?? "",
+              -capoDisplay.capo,
+              capoChart.key,
+              false
+            )
+          )
+        : []
+    );
+    console.assert(
+      capoChart.key === "A" &&
+        shapes.join(" ") === "G D/F#" &&
+        chordDisplayFromQuery(new URLSearchParams("capo=0"), 2).capo === 0 &&
+        chordDisplayQuery({ transpose: 0, capo: 0, nashville: false }, 2) ===
+          "?capo=0",
+      "A {capo:} chart should open in its written shapes and sounding key"
+    );
+
+    const hasNewline = songs.some((s) => s.lyrics.includes("\\n"));
+    console.assert(
+      hasNewline,
+      "At least one song should have multiline lyrics with a newline"
+    );
+
+    const pub = songs.some((s) => s.visibility === "public");
+    const pri = songs.some((s) => s.visibility === "private");
+    console.assert(
+      pub && pri,
+      "Seed should include both public and private songs"
+    );
+
+    const byDateDesc = (a: Song, b: Song) =>
+      new Date(b.releaseDate).getTime() - new Date(a.releaseDate).getTime();
+    const byLikesDesc = (a: Song, b: Song) => (b.likes || 0) - (a.likes || 0);
+    const byTitleAsc = (a: Song, b: Song) =>
+      (a.title || "").localeCompare(b.title || "");
+    [byDateDesc, byLikesDesc, byTitleAsc].forEach((cmp, idx) => {
+      const copy = songs.slice();
+      copy.sort(cmp);
+      console.assert(
+        Array.isArray(copy) && copy.length === songs.length,
+        `Sort test ${idx + 1} ok`
+      );
+    });
+  } catch (err) {
+    console.error("Self-tests encountered an error:", err);
+  }
+  console.groupEnd();
+}
+
+/* -------------------------
+ * Utilities
+ * ------------------------- */
+const routes = [
+  { path: "/", label: "Home" },
+  { path: "/music", label: "Music" },
+  { path: "/playlists", label: "Playlists" },
+  { path: "/stories", label: "Stories" },
+  { path: "/request", label: "Request" },
+  { path: "/guestbook", label: "Guestbook" },
+  { path: "/about", label: "About" },
+  { path: "/subscribe", label: "Subscribe" },
+  { path: "/private", label: "Private" },
+  { path: "/data", label: "Data", privateOnly: true },
+  { path: "/admin/songs", label: "Admin", privateOnly: true },
+];
+
+function classNames(...xs: (string | false | null | undefined)[]) {
+  return xs.filter(Boolean).join(" ");
+}
+
+function slugify(text: string) {
+  return foldText(text)
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+// Appends -2, -3, ... until the slug is not used by another song (or
+// playlist; anything with an id and a slug)
+function uniqueSlug(
+  base: string,
+  items: { id: number; slug: string }[],
+  exceptId?: number | null
+) {
+  const root = base || "song";
+  const taken = new Set(
+    items.filter((s) => s.id !== exceptId).map((s) => s.slug)
+  );
+  let slug = root;
+  for (let n = 2; taken.has(slug); n++) slug = `${root}-${n}`;
+  return slug;
+}
+
+// Random permutation of ids (Fisher–Yates); `firstId`, if given, leads.
+function shuffleQueue(ids: number[], firstId: number | null = null) {
+  const rest = ids.filter((id) => id !== firstId);
+  for (let i = rest.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [rest[i], rest[j]] = [rest[j], rest[i]];
+  }
+  return firstId != null && ids.includes(firstId) ? [firstId, ...rest] : rest;
+}
+
+/* -------------------------
+ * Keyboard shortcuts
+ * ------------------------- */
+const SHORTCUTS = [
+  { keys: ["Space"], label: "Play / pause" },
+  { keys: ["J", "←"], label: "Seek back (J: 10s, ←: 5s)" },
+  { keys: ["L", "→"], label: "Seek forward (L: 10s, →: 5s)" },
+  { keys: ["N"], label: "Next song in queue" },
+  { keys: ["P"], label: "Previous song in queue" },
+  { keys: ["/"], label: "Focus search" },
+  { keys: ["g", "m"], label: "Go to Music", sequence: true },
+  { keys: ["g", "h"], label: "Go to Home", sequence: true },
+  { keys: ["?"], label: "Show / hide this list" },
+];
+
+// True when a keystroke belongs to a form field rather than the page
+function isTypingTarget(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  const tag = target.tagName;
+  return tag === "INPUT" || tag === "TEXTAREA" || tag === "SELECT";
+}
+
+/* -------------------------
+ * Routing
+ * Routes are patterns ("/song/:slug", "/admin/songs/:slug?") matched against
+ * the path; the ?query is parsed separately. URLs are hash-based (#/music)
+ * unless the site is built with VITE_ROUTER=history, which uses clean paths
+ * (/music) through the History API. The host must then serve index.html for
+ * every path (public/_redirects does this on Netlify). Hash links keep
+ * working in history mode, and file:// pages always use the hash.
+ * ------------------------- */
+const ROUTE_PATTERNS = {
+  home: "/",
+  music: "/music",
+  song: "/song/:slug",
+  sheet: "/song/:slug/sheet",
+  playlists: "/playlists",
+  playlist: "/playlist/:id", // slug, or numeric id
+  stories: "/stories",
+  story: "/stories/:slug",
+  search: "/search",
+  request: "/request",
+  guestbook: "/guestbook",
+  about: "/about",
+  subscribe: "/subscribe",
+  private: "/private",
+  data: "/data",
+  admin: "/admin/songs/:slug?",
+  adminPosts: "/admin/posts/:slug?",
+} as const;
+
+type RouteName = keyof typeof ROUTE_PATTERNS | "notfound";
+
+// "/song/:slug" -> { slug: string }; "/admin/songs/:slug?" -> { slug?: string }
+type PathParams<P extends string> = P extends `${infer Head}/${infer Tail}`
+  ? PathParams<Head> & PathParams<Tail>
+  : P extends `:${infer Name}?`
+  ? { [K in Name]?: string }
+  : P extends `:${infer Name}`
+  ? { [K in Name]: string }
+  : Record<never, string>;
+
+type Route = {
+  [N in RouteName]: {
+    name: N;
+    params: N extends keyof typeof ROUTE_PATTERNS
+      ? PathParams<(typeof ROUTE_PATTERNS)[N]>
+      : Record<never, string>;
+    path: string; // without the query
+    query: URLSearchParams;
+  };
+}[RouteName];
+
+// Params for a pattern, or null when the segments don't fit it. Empty
+// segments are dropped, so "/song/" never matches "/song/:slug".
+function matchPattern(
+  pattern: string,
+  segments: string[]
+): Record<string, string> | null {
+  const parts = pattern.split("/").filter(Boolean);
+  if (segments.length > parts.length) return null;
+  const params: Record<string, string> = {};
+  for (const [i, part] of parts.entries()) {
+    const segment = segments[i];
+    if (!part.startsWith(":")) {
+      if (part !== segment) return null;
+      continue;
+    }
+    const optional = part.endsWith("?");
+    if (segment === undefined) {
+      if (optional) continue;
+      return null;
+    }
+    try {
+      params[part.slice(1, optional ? -1 : undefined)] =
+        decodeURIComponent(segment);
+    } catch {
+      return null; // malformed %-escape
+    }
+  }
+  return params;
+}
+
+function matchRoute(url: string): Route {
+  const [path, search = ""] = url.split("?");
+  const query = new URLSearchParams(search);
+  const segments = path.split("/").filter(Boolean);
+  for (const [name, pattern] of Object.entries(ROUTE_PATTERNS)) {
+    const params = matchPattern(pattern, segments);
+    if (params) return { name, params, path, query } as Route;
+  }
+  return { name: "notfound", params: {}, path, query };
+}
+
+const HISTORY_ROUTING =
+  import.meta.env.VITE_ROUTER === "history" &&
+  window.location.protocol !== "file:";
+
+const ROUTER_BASE = import.meta.env.BASE_URL.replace(/\/$/, "");
+
+// The app path ("/music?q=x") the browser is currently showing
+function readLocation() {
+  const hash = window.location.hash.replace(/^#/, "");
+  if (hash.startsWith("/") || !HISTORY_ROUTING) return hash || "/";
+  const { pathname, search } = window.location;
+  const path = pathname.startsWith(ROUTER_BASE)
+    ? pathname.slice(ROUTER_BASE.length)
+    : pathname;
+  return (path || "/") + search;
+}
+
+// Identifies a history entry, for scroll restoration
+const newEntryKey = () => Math.random().toString(36).slice(2);
+
+// The href for an app path in the current routing mode
+function routeHref(path: string) {
+  return HISTORY_ROUTING ? ROUTER_BASE + path : `#${path}`;
+}
+
+// Absolute link to an app path, for sharing
+function routeUrl(path: string) {
+  return new URL(routeHref(path), window.location.href).href;
+}
+
+/* -------------------------
+ * Page titles & meta
+ * ------------------------- */
+type PageMeta = { title: string; description: string };
+
+type RouteData<N extends RouteName = RouteName> = {
+  route: Extract<Route, { name: N }>;
+  song: Song | null;
+  playlist: Playlist | null;
+  post: Post | null;
+};
+
+const SITE_DESCRIPTION =
+  "Songs and stories from the road — bluesy grit, southern rock swagger, and quiet moments in between.";
+
+const pageMeta = (title: string, description = SITE_DESCRIPTION) => ({
+  title: title ? `${title} – Brian's Songs` : "Brian's Songs",
+  description,
+});
+
+// First line of a story/lyrics field ("\\n"-separated), for descriptions
+const firstLine = (text: string) => text.split("\\n")[0].trim();
+
+const ROUTE_META: { [N in RouteName]: (data: RouteData<N>) => PageMeta } = {
+  home: () => pageMeta("Home"),
+  music: ({ route }) => {
+    const q = route.query.get("q")?.trim();
+    return pageMeta(q ? `“${q}” – Music` : "Music");
+  },
+  song: ({ song }) =>
+    song
+      ? pageMeta(song.title, firstLine(song.story) || SITE_DESCRIPTION)
+      : pageMeta("Song not found"),
+  sheet: ({ song }) =>
+    song ? pageMeta(`${song.title} – Song sheet`) : pageMeta("Song not found"),
+  playlists: () => pageMeta("Playlists"),
+  playlist: ({ playlist }) =>
+    playlist
+      ? pageMeta(`${playlist.name} – Playlist`)
+      : pageMeta("Playlist not found"),
+  stories: ({ route }) => {
+    const tag = route.query.get("tag");
+    return pageMeta(tag ? `#${tag} – Stories` : "Stories");
+  },
+  story: ({ post }) =>
+    post
+      ? pageMeta(`${post.title} – Stories`, firstLine(post.content))
+      : pageMeta("Story not found"),
+  search: ({ route }) => {
+    const q = route.query.get("q")?.trim();
+    return pageMeta(q ? `“${q}” – Search` : "Search");
+  },
+  request: () => pageMeta("Request a Song"),
+  guestbook: () => pageMeta("Guestbook"),
+  about: () => pageMeta("About"),
+  subscribe: () => pageMeta("Subscribe"),
+  private: () => pageMeta("Private"),
+  data: () => pageMeta("Data"),
+  admin: () => pageMeta("Manage Songs"),
+  adminPosts: () => pageMeta("Manage Stories"),
+  notfound: () => pageMeta("Page not found"),
+};
+
+function routeMeta(data: RouteData): PageMeta {
+  const build = ROUTE_META[data.route.name] as (data: RouteData) => PageMeta;
+  return build(data);
+}
+
+// Sets <title> plus the description and Open Graph tags for link previews
+function applyPageMeta(meta: PageMeta, url: string) {
+  document.title = meta.title;
+  const tags: [string, string, string][] = [
+    ["name", "description", meta.description],
+    ["property", "og:title", meta.title],
+    ["property", "og:description", meta.description],
+    ["property", "og:url", url],
+    ["name", "twitter:title", meta.title],
+    ["name", "twitter:description", meta.description],
+  ];
+  for (const [attr, key, content] of tags) {
+    let el = document.head.querySelector<HTMLMetaElement>(
+      `meta[${attr}="${key}"]`
+    );
+    if (!el) {
+      el = document.createElement("meta");
+      el.setAttribute(attr, key);
+      document.head.appendChild(el);
+    }
+    el.content = content;
+  }
+}
+
+/* -------------------------
+ * Main App
+ * ------------------------- */
+export default function App() {
+  const [path, setPath] = useState(readLocation);
+  const route = useMemo(() => matchRoute(path), [path]);
+  // Header search text away from the Music page; on it, the query and sort
+  // live in the URL (#/music?q=&sort=) so filtered views can be bookmarked
+  const [draftQuery, setDraftQuery] = useState("");
+
+  // Persisted state
+  const [songs, setSongs] = useLocalStorage(
+    "msw:songs",
+    SEED_SONGS,
+    SongListSchema
+  );
+  const [liked, setLiked] = useLocalStorage<Liked>(
+    "msw:liked",
+    {},
+    LikedSchema
+  );
+  const [guestbook, setGuestbook] = useLocalStorage<GuestbookEntry[]>(
+    "msw:guestbook",
+    [],
+    GuestbookSchema
+  );
+  const [comments, setComments] = useLocalStorage<CommentThreads>(
+    "msw:comments",
+    {},
+    CommentThreadsSchema
+  );
+  const [privateSession, setPrivateSession] =
+    useLocalStorage<PrivateSession | null>(
+      "msw:priv",
+      null,
+      PrivateSessionSchema
+    );
+  const privateUnlocked =
+    privateSession != null && privateSession.expiresAt > Date.now();
+  const [sortMode, setSortMode] = useLocalStorage<SortMode>(
+    "msw:sort",
+    "newest",
+    SortModeSchema
+  );
+  const [playlists, setPlaylists] = useLocalStorage<Playlist[]>(
+    "msw:playlists",
+    [],
+    PlaylistListSchema
+  );
+  const [posts, setPosts] = useLocalStorage<Post[]>(
+    "msw:posts",
+    SEED_POSTS,
+    PostListSchema
+  );
+
+  // Player state (queue-based so playback survives navigation; persisted so a
+  // reload restores the session paused — isPlaying always starts false)
+  const [queue, setQueue] = useLocalStorage<number[]>(
+    "msw:queue",
+    [],
+    v.array(v.number())
+  );
+  const [queueIndex, setQueueIndex] = useLocalStorage<number | null>(
+    "msw:queueIndex",
+    null,
+    v.nullable(v.number())
+  );
+  const [isPlaying, setIsPlaying] = useState(false);
+  // Unshuffled snapshot of the queue, restored when shuffle is turned off
+  const [baseQueue, setBaseQueue] = useLocalStorage<number[]>(
+    "msw:baseQueue",
+    [],
+    v.array(v.number())
+  );
+  const [shuffle, setShuffle] = useLocalStorage(
+    "msw:shuffle",
+    false,
+    v.boolean()
+  );
+  const [repeatMode, setRepeatMode] = useLocalStorage<RepeatMode>(
+    "msw:repeat",
+    "off",
+    RepeatModeSchema
+  );
+
+  // Init: self-tests
+  useEffect(() => {
+    runSelfTests(songs);
+  }, []); // only once
+
+  // Re-lock the Private section when its unlock expires
+  useEffect(() => {
+    if (!privateSession) return;
+    const ms = privateSession.expiresAt - Date.now();
+    if (ms <= 0) {
+      setPrivateSession(null);
+      return;
+    }
+    // setTimeout overflows past ~24.8 days; re-check at least daily
+    const t = window.setTimeout(
+      () =>
+        setPrivateSession((s) => (s && s.expiresAt <= Date.now() ? null : s)),
+      Math.min(ms, 86400000)
+    );
+    return () => window.clearTimeout(t);
+  }, [privateSession, setPrivateSession]);
+
+  const unlockPrivate = () => {
+    const now = Date.now();
+    setPrivateSession({
+      unlockedAt: now,
+      expiresAt: now + PRIVATE_CONFIG.unlockMinutes * 60000,
+    });
+  };
+
+  const lockPrivate = () => setPrivateSession(null);
+
+  // While locked, private songs are dropped from the queue (and playback
+  // stops if one of them was playing)
+  useEffect(() => {
+    if (privateUnlocked) return;
+    const hidden = new Set(
+      songs.filter((s) => s.visibility === "private").map((s) => s.id)
+    );
+    if (!queue.some((id) => hidden.has(id))) return;
+    const currentId = queueIndex != null ? queue[queueIndex] : null;
+    const next = queue.filter((id) => !hidden.has(id));
+    setQueue(next);
+    if (currentId != null && hidden.has(currentId)) {
+      setQueueIndex(null);
+      setIsPlaying(false);
+    } else {
+      setQueueIndex(currentId != null ? next.indexOf(currentId) : null);
+    }
+    setBaseQueue((b) => b.filter((id) => !hidden.has(id)));
+  }, [
+    privateUnlocked,
+    songs,
+    queue,
+    queueIndex,
+    setQueue,
+    setQueueIndex,
+    setBaseQueue,
+  ]);
+
+  // Routing: sync path <-> URL. Every history entry gets a key so its
+  // scroll position can be restored on back/forward.
+  const entryKey = useRef<string>(window.history.state?.key ?? newEntryKey());
+  const scrollPositions = useRef(new Map<string, number>());
+  const pendingScroll = useRef<number | null>(null);
+
+  useEffect(() => {
+    window.history.scrollRestoration = "manual";
+    if (!window.history.state?.key)
+      window.history.replaceState({ key: entryKey.current }, "");
+    const onPop = () => {
+      let key: string | undefined = window.history.state?.key;
+      // Hash changes fire popstate and then hashchange for the same entry
+      if (key !== entryKey.current) {
+        scrollPositions.current.set(entryKey.current, window.scrollY);
+        if (!key) {
+          // A hash typed into the address bar: a new entry without a key
+          key = newEntryKey();
+          window.history.replaceState({ key }, "");
+        }
+        entryKey.current = key;
+        pendingScroll.current = scrollPositions.current.get(key) ?? 0;
+      }
+      setPath(readLocation());
+    };
+    window.addEventListener("popstate", onPop);
+    window.addEventListener("hashchange", onPop);
+    return () => {
+      window.removeEventListener("popstate", onPop);
+      window.removeEventListener("hashchange", onPop);
+    };
+  }, []);
+
+  // In history mode, turn an old #/path link into the clean URL
+  useEffect(() => {
+    if (HISTORY_ROUTING && window.location.hash.startsWith("#/"))
+      window.history.replaceState(
+        window.history.state,
+        "",
+        routeHref(readLocation())
+      );
+  }, []);
+
+  useEffect(() => {
+    const top = pendingScroll.current;
+    if (top == null) return;
+    pendingScroll.current = null;
+    // Wait a frame so the page has its content before scrolling
+    const frame = requestAnimationFrame(() => window.scrollTo({ top }));
+    return () => cancelAnimationFrame(frame);
+  }, [path]);
+
+  const navigate = (to: string) => {
+    scrollPositions.current.set(entryKey.current, window.scrollY);
+    entryKey.current = newEntryKey();
+    window.history.pushState({ key: entryKey.current }, "", routeHref(to));
+    setPath(to);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  // Swap the current URL without a new history entry (e.g. while typing)
+  const replaceRoute = (to: string) => {
+    window.history.replaceState(window.history.state, "", routeHref(to));
+    setPath(to);
+  };
+
+  // Keyboard shortcuts (ignored while typing in any form field)
+  const playerRef = useRef<PlayerHandle>(null);
+  const searchRef = useRef<HTMLInputElement>(null);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const shortcutRef = useRef<(e: KeyboardEvent) => void>(() => undefined);
+  const pendingGRef = useRef(0);
+
+  shortcutRef.current = (e: KeyboardEvent) => {
+    if (e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey) return;
+    if (isTypingTarget(e.target)) return;
+
+    if (e.key === "Escape" && showShortcuts) {
+      setShowShortcuts(false);
+      return;
+    }
+    if (e.key === "?") {
+      e.preventDefault();
+      setShowShortcuts((x) => !x);
+      return;
+    }
+
+    // Two-key "g" sequences
+    if (pendingGRef.current && Date.now() - pendingGRef.current < 1000) {
+      pendingGRef.current = 0;
+      if (e.key === "m" || e.key === "h") {
+        e.preventDefault();
+        navigate(e.key === "m" ? "/music" : "/");
+        return;
+      }
+    }
+
+    const player = playerRef.current;
+    switch (e.key) {
+      case "g":
+        pendingGRef.current = Date.now();
+        return;
+      case " ": {
+        // Let focused buttons and links handle their own activation
+        const el = e.target as HTMLElement | null;
+        if (el?.closest?.("button, a, [role=button]")) return;
+        e.preventDefault();
+        player?.togglePlay();
+        return;
+      }
+      case "j":
+      case "J":
+        player?.seekBy(-10);
+        return;
+      case "l":
+      case "L":
+        player?.seekBy(10);
+        return;
+      case "ArrowLeft":
+        e.preventDefault();
+        player?.seekBy(-5);
+        return;
+      case "ArrowRight":
+        e.preventDefault();
+        player?.seekBy(5);
+        return;
+      case "n":
+      case "N":
+        if (canStepNext) stepQueue(1);
+        return;
+      case "p":
+      case "P":
+        if (canStepPrev) stepQueue(-1);
+        return;
+      case "/":
+        e.preventDefault();
+        searchRef.current?.focus();
+        return;
+    }
+  };
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => shortcutRef.current(e);
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, []);
+
+  const onMusic = route.name === "music";
+  const query = onMusic ? route.query.get("q") ?? "" : draftQuery;
+  const urlSort = onMusic ? route.query.get("sort") : null;
+  const activeSort: SortMode =
+    urlSort === "newest" || urlSort === "liked" || urlSort === "az"
+      ? urlSort
+      : sortMode;
+
+  // Replaces (not pushes) the Music URL so typing doesn't flood history
+  const setMusicUrl = (q: string, sort: SortMode) =>
+    replaceRoute(musicPath(q, sort));
+
+  const setQuery = (q: string) =>
+    onMusic ? setMusicUrl(q, activeSort) : setDraftQuery(q);
+
+  const changeSort = (mode: SortMode) => {
+    setSortMode(mode);
+    if (onMusic) setMusicUrl(query, mode);
+  };
+
+  const parsedQuery = useMemo(() => parseSongQuery(query), [query]);
+
+  // Songs the visitor may browse here, before the search query
+  const onPrivate = route.name === "private";
+  const catalogSongs = useMemo(() => {
+    if (!onPrivate) return songs.filter((s) => s.visibility === "public");
+    return privateUnlocked ? songs : [];
+  }, [songs, onPrivate, privateUnlocked]);
+
+  // Visible + sorted songs (respect search & private unlock)
+  const visibleSongs = useMemo(
+    () =>
+      sortSongs(
+        catalogSongs.filter((s) => matchesSongQuery(parsedQuery, s, liked)),
+        activeSort,
+        liked
+      ),
+    [catalogSongs, parsedQuery, activeSort, liked]
+  );
+
+  // Every song the visitor may see, in library order
+  const listenerSongs = useMemo(
+    () => songs.filter((s) => s.visibility === "public" || privateUnlocked),
+    [songs, privateUnlocked]
+  );
+
+  // Published posts, plus drafts and private ones once unlocked
+  const listenerPosts = useMemo(
+    () => posts.filter((p) => p.status === "published" || privateUnlocked),
+    [posts, privateUnlocked]
+  );
+
+  // Full-text index over everything the visitor may see
+  const searchIndex = useMemo(
+    () =>
+      buildSearchIndex(searchDocuments(listenerSongs, listenerPosts, comments)),
+    [listenerSongs, listenerPosts, comments]
+  );
+
+  // Song detail by slug (from path)
+  const routeSong = useMemo(() => {
+    if (route.name !== "song" && route.name !== "sheet") return null;
+    const { slug } = route.params;
+    return (
+      songs.find(
+        (s) => s.slug === slug && (s.visibility === "public" || privateUnlocked)
+      ) || null
+    );
+  }, [route, songs, privateUnlocked]);
+
+  // Playlist by slug or id (from path); a share link's ?name=&songs= is used
+  // only when no local playlist matches
+  const routePlaylist = useMemo(() => {
+    if (route.name !== "playlist") return null;
+    const { id } = route.params;
+    const own = [...playlists, ...BUILT_IN_PLAYLISTS].find(
+      (p) => p.slug === id || String(p.id) === id
+    );
+    if (own) return { playlist: own, shared: false };
+    return sharedPlaylist(id, route.query, songs);
+  }, [route, playlists, songs]);
+
+  const routePost = useMemo(() => {
+    if (route.name !== "story") return null;
+    return listenerPosts.find((p) => p.slug === route.params.slug) || null;
+  }, [route, listenerPosts]);
+
+  // Document title and meta tags
+  useEffect(() => {
+    applyPageMeta(
+      routeMeta({
+        route,
+        song: routeSong,
+        playlist: routePlaylist?.playlist ?? null,
+        post: routePost,
+      }),
+      routeUrl(path)
+    );
+  }, [route, path, routeSong, routePlaylist, routePost]);
+
+  // Current song derived from queue
+  const currentSong = useMemo(() => {
+    if (queueIndex == null) return null;
+    const id = queue[queueIndex];
+    return songs.find((s) => s.id === id) || null;
+  }, [queue, queueIndex, songs]);
+
+  // The song auto-advance plays next (see stepQueue), preloaded by the player
+  const nextSong = useMemo(() => {
+    if (queueIndex == null || repeatMode === "one") return null;
+    const next =
+      queueIndex + 1 < queue.length
+        ? queueIndex + 1
+        : repeatMode === "all"
+        ? 0
+        : null;
+    if (next == null || queue[next] === queue[queueIndex]) return null;
+    return songs.find((s) => s.id === queue[next]) || null;
+  }, [queue, queueIndex, repeatMode, songs]);
+
+  // Replace the queue with `ids` (shuffled if shuffle is on) and start playing
+  // Returns the id of the song that starts playing.
+  const startQueue = (ids: number[], startId: number | null) => {
+    const order = shuffle ? shuffleQueue(ids, startId) : ids;
+    const index = shuffle || startId == null ? 0 : ids.indexOf(startId);
+    setBaseQueue(ids);
+    setQueue(order);
+    setQueueIndex(index);
+    setIsPlaying(true);
+    return order[index];
+  };
+
+  // Start playback for a given song, snapshotting the current visible list as the queue
+  const playBySong = (song: Song) => {
+    const newQueue = visibleSongs.map((s) => s.id);
+    if (!newQueue.includes(song.id)) return;
+
+    startQueue(newQueue, song.id);
+
+    if (route.name !== "song") navigate(`/song/${song.slug}`);
+  };
+
+  // Start playback of the entire *visible* list (respects search/sort/private)
+  const playAllVisible = () => {
+    if (!visibleSongs.length) return;
+    const ids = visibleSongs.map((s) => s.id);
+    const firstId = startQueue(ids, null);
+    // Optional: navigate to the first song's page
+    const first = songs.find((s) => s.id === firstId);
+    if (first && route.name !== "song") navigate(`/song/${first.slug}`);
+  };
+
+  const openSongDetail = (song: Song) => navigate(`/song/${song.slug}`);
+
+  // Songs of a playlist that can be shown right now (skips deleted songs,
+  // and private ones while the Private section is locked). Smart playlists
+  // are re-evaluated whenever songs or likes change.
+  const resolvePlaylist = useMemo(() => {
+    const available = songs.filter(
+      (s) => s.visibility === "public" || privateUnlocked
+    );
+    return (playlist: Playlist) =>
+      playlist.smart
+        ? smartPlaylistSongs(playlist.smart, available, liked)
+        : playlist.songIds
+            .map((id) => available.find((s) => s.id === id))
+            .filter((s): s is Song => s != null);
+  }, [songs, liked, privateUnlocked]);
+
+  const playPlaylist = (playlist: Playlist, startId: number | null = null) => {
+    const ids = resolvePlaylist(playlist).map((s) => s.id);
+    if (!ids.length) return;
+    startQueue(ids, startId != null && ids.includes(startId) ? startId : null);
+  };
+
+  const addToPlaylist = (playlistId: number, song: Song) =>
+    setPlaylists((prev) =>
+      prev.map((p) =>
+        p.id === playlistId && !p.songIds.includes(song.id)
+          ? {
+              ...p,
+              songIds: [...p.songIds, song.id],
+              updatedAt: new Date().toISOString(),
+            }
+          : p
+      )
+    );
+
+  const playlistPicker: PlaylistPicker = {
+    playlists: playlists.filter((p) => !p.smart),
+    onAdd: addToPlaylist,
+    onCreate: (name, song) =>
+      setPlaylists((prev) => [...prev, makePlaylist(name, prev, [song.id])]),
+  };
+
+  // Update a song (attach audio URL, etc.)
+  const updateSong = (id: number, patch: Partial<Song>) => {
+    const updatedAt = new Date().toISOString();
+    setSongs((prev) =>
+      prev.map((s) => (s.id === id ? { ...s, ...patch, updatedAt } : s))
+    );
+  };
+
+  // Songs attached before loudness analysis existed are measured the first
+  // time they play (once per session; unreadable links are skipped)
+  const measuredRef = useRef(new Set<string>());
+  useEffect(() => {
+    const song = currentSong;
+    if (!song?.audioUrl || song.gainDb != null) return;
+    const key = `${song.id}:${song.audioUrl}`;
+    if (measuredRef.current.has(key)) return;
+    measuredRef.current.add(key);
+    analyzeSongAudio(song.audioUrl)
+      .then(({ peaks, gainDb }) => {
+        // Derived data, not an edit: updatedAt stays as it was. Silent
+        // tracks get 0 dB so they aren't measured again next session.
+        setSongs((prev) =>
+          prev.map((s) =>
+            s.id === song.id && s.audioUrl === song.audioUrl
+              ? { ...s, gainDb: gainDb ?? 0, waveform: s.waveform ?? peaks }
+              : s
+          )
+        );
+      })
+      .catch(() => undefined);
+  }, [currentSong, setSongs]);
+
+  // Queue stepping. Only repeat-all wraps around; with repeat off, running
+  // past the end of the queue (auto-advance) stops playback.
+  // Repeat-one is handled by the <audio> element looping. A one-song queue
+  // on repeat-all wraps onto the same index, which reloads nothing, so the
+  // track is restarted instead.
+  const stepQueue = (dir: number, auto = false) => {
+    if (!queue.length || queueIndex == null) return;
+    const next = queueIndex + dir;
+    if (next >= 0 && next < queue.length) setQueueIndex(next);
+    else if (repeatMode === "all") {
+      const wrapped = (next + queue.length) % queue.length;
+      if (wrapped !== queueIndex) setQueueIndex(wrapped);
+      else playerRef.current?.restart();
+    } else if (auto) setIsPlaying(false);
+  };
+
+  const canStepPrev =
+    queueIndex != null &&
+    (repeatMode === "all" ? queue.length > 1 : queueIndex > 0);
+  const canStepNext =
+    queueIndex != null &&
+    (repeatMode === "all" ? queue.length > 1 : queueIndex < queue.length - 1);
+
+  // Shuffle on: current song first, the rest randomized.
+  // Shuffle off: back to the original snapshot order.
+  const toggleShuffle = () => {
+    const currentId = queueIndex != null ? queue[queueIndex] : null;
+    if (!shuffle) {
+      setQueue(shuffleQueue(baseQueue, currentId));
+      if (currentId != null) setQueueIndex(0);
+    } else {
+      setQueue(baseQueue);
+      if (currentId != null) setQueueIndex(baseQueue.indexOf(currentId));
+    }
+    setShuffle(!shuffle);
+  };
+
+  const cycleRepeat = () =>
+    setRepeatMode(
+      repeatMode === "off" ? "all" : repeatMode === "all" ? "one" : "off"
+    );
+
+  // Queue editing. Songs appear at most once in the queue; queueIndex always
+  // follows the current song. While shuffled, additions and removals are
+  // mirrored into baseQueue so turning shuffle off keeps them.
+  const commitQueue = (
+    next: number[],
+    nextIndex: number | null,
+    change?: { added?: number; removed?: number }
+  ) => {
+    setQueue(next);
+    setQueueIndex(next.length ? nextIndex : null);
+    if (!next.length) setIsPlaying(false);
+    if (!shuffle) setBaseQueue(next);
+    else if (change?.added != null) {
+      const added = change.added;
+      setBaseQueue((b) => (b.includes(added) ? b : [...b, added]));
+    } else if (change?.removed != null) {
+      const removed = change.removed;
+      setBaseQueue((b) => b.filter((id) => id !== removed));
+    }
+  };
+
+  const playNext = (song: Song) => {
+    if (queueIndex == null || !queue.length) {
+      startQueue([song.id], song.id);
+      return;
+    }
+    const currentId = queue[queueIndex];
+    if (currentId === song.id) return;
+    const rest = queue.filter((id) => id !== song.id);
+    const at = rest.indexOf(currentId) + 1;
+    const next = [...rest.slice(0, at), song.id, ...rest.slice(at)];
+    commitQueue(next, at - 1, { added: song.id });
+  };
+
+  const addToQueue = (song: Song) => {
+    if (queueIndex == null || !queue.length) {
+      startQueue([song.id], song.id);
+      return;
+    }
+    if (queue.includes(song.id)) return;
+    commitQueue([...queue, song.id], queueIndex, { added: song.id });
+  };
+
+  const removeFromQueue = (index: number) => {
+    if (queueIndex == null || index < 0 || index >= queue.length) return;
+    const removed = queue[index];
+    const next = queue.filter((_, i) => i !== index);
+    // Removing the current song moves playback on to whatever takes its slot
+    const nextIndex =
+      index < queueIndex
+        ? queueIndex - 1
+        : Math.min(queueIndex, next.length - 1);
+    commitQueue(next, nextIndex, { removed });
+  };
+
+  const moveInQueue = (from: number, to: number) => {
+    if (queueIndex == null || from === to) return;
+    if (from < 0 || from >= queue.length || to < 0 || to >= queue.length)
+      return;
+    const currentId = queue[queueIndex];
+    const next = queue.slice();
+    const [id] = next.splice(from, 1);
+    next.splice(to, 0, id);
+    commitQueue(next, next.indexOf(currentId));
+  };
+
+  const jumpToQueueIndex = (index: number) => {
+    if (index < 0 || index >= queue.length) return;
+    setQueueIndex(index);
+    setIsPlaying(true);
+  };
+
+  const queueSongs = useMemo(
+    () =>
+      queue.map((id): Song | null => songs.find((s) => s.id === id) || null),
+    [queue, songs]
+  );
+
+  // Everything the Data page can export as an M3U/XSPF playlist
+  const exportablePlaylists = useMemo<PlaylistSource[]>(
+    () => [
+      {
+        id: "queue",
+        title: "Current queue",
+        songs: queueSongs.filter((s): s is Song => s != null),
+      },
+      ...[...playlists, ...BUILT_IN_PLAYLISTS].map((p) => ({
+        id: `playlist-${p.id}`,
+        title: p.name,
+        songs: resolvePlaylist(p),
+      })),
+    ],
+    [queueSongs, playlists, resolvePlaylist]
+  );
+
+  const stopPlayback = () => {
+    setIsPlaying(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-neutral-50 text-neutral-900 flex flex-col">
+      {/* Header */}
+      <header className="print:hidden sticky top-0 z-40 backdrop-blur supports-[backdrop-filter]:bg-white/70 bg-white border-b border-neutral-200">
+        <div className="max-w-6xl mx-auto px-4 py-3 flex items-center justify-between">
+          <button
+            className="text-xl font-bold tracking-tight hover:opacity-80"
+            onClick={() => navigate("/")}
+            aria-label="Go home"
+          >
+            🎵 briTunes
+          </button>
+
+          <nav className="hidden md:flex gap-4 text-sm">
+            {routes
+              .filter((r) => !r.privateOnly || privateUnlocked)
+              .map((r) => (
+                <button
+                  key={r.path}
+                  onClick={() => navigate(r.path)}
+                  className={classNames(
+                    "px-3 py-2 rounded-xl hover:bg-neutral-100",
+                    route.path === r.path && "bg-neutral-200"
+                  )}
+                >
+                  {r.label}
+                </button>
+              ))}
+          </nav>
+
+          <div className="flex items-center gap-2">
+            <input
+              ref={searchRef}
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => {
+                // Enter searches everything (lyrics, stories, comments);
+                // field filters only apply to the Music page
+                if (e.key !== "Enter" || !query.trim()) return;
+                if (parsedQuery.tokens.some((t) => t.kind === "filter"))
+                  navigate(musicPath(query.trim(), activeSort));
+                else navigate(`/search?q=${encodeURIComponent(query.trim())}`);
+              }}
+              placeholder="Search songs, lyrics, stories..."
+              className="w-40 md:w-72 px-3 py-2 rounded-xl border border-neutral-300 focus:outline-none focus:ring-2 focus:ring-neutral-400"
+            />
+            <button
+              className="hidden md:block px-2 py-2 rounded-xl border text-sm hover:bg-neutral-100"
+              onClick={() => setShowShortcuts(true)}
+              aria-label="Keyboard shortcuts"
+              title="Keyboard shortcuts (?)"
+            >
+              ⌨
+            </button>
+          </div>
+        </div>
+      </header>
+
+      {/* Main */}
+      <main className="flex-1">
+        {route.name === "home" && (
+          <HomePage
+            onPlaySong={playBySong}
+            onPlayNext={playNext}
+            onAddToQueue={addToQueue}
+            onPlayAll={playAllVisible}
+            navigate={navigate}
+            songs={songs}
+            playlistPicker={playlistPicker}
+          />
+        )}
+
+        {route.name === "music" && (
+          <MusicPage
+            songs={visibleSongs}
+            catalog={catalogSongs}
+            query={query}
+            parsedQuery={parsedQuery}
+            setQuery={setQuery}
+            onOpenSong={openSongDetail}
+            onPlaySong={playBySong}
+            onPlayNext={playNext}
+            onAddToQueue={addToQueue}
+            onPlayAll={playAllVisible}
+            liked={liked}
+            setLiked={setLiked}
+            sortMode={activeSort}
+            setSortMode={changeSort}
+            playlistPicker={playlistPicker}
+          />
+        )}
+
+        {route.name === "song" && (
+          <SongDetailPage
+            song={routeSong}
+            onPlaySong={playBySong}
+            onPlayNext={playNext}
+            onAddToQueue={addToQueue}
+            onBack={() => navigate("/music")}
+            comments={comments}
+            setComments={setComments}
+            liked={liked}
+            setLiked={setLiked}
+            onUpdateSong={updateSong}
+            onEdit={() => navigate(`/admin/songs/${routeSong?.slug}`)}
+            playlistPicker={playlistPicker}
+            playerRef={playerRef}
+            isCurrent={!!routeSong && currentSong?.id === routeSong.id}
+            navigate={navigate}
+          />
+        )}
+
+        {route.name === "sheet" && (
+          <SongSheetPage
+            song={routeSong}
+            query={route.query}
+            onQueryChange={(query) =>
+              replaceRoute(`/song/${route.params.slug}/sheet${query}`)
+            }
+            navigate={navigate}
+          />
+        )}
+
+        {route.name === "playlists" && (
+          <PlaylistsPage
+            playlists={playlists}
+            setPlaylists={setPlaylists}
+            resolvePlaylist={resolvePlaylist}
+            onPlayPlaylist={playPlaylist}
+            navigate={navigate}
+          />
+        )}
+
+        {route.name === "playlist" && (
+          <PlaylistPage
+            playlist={routePlaylist?.playlist ?? null}
+            shared={routePlaylist?.shared ?? false}
+            resolvePlaylist={resolvePlaylist}
+            songs={routePlaylist ? resolvePlaylist(routePlaylist.playlist) : []}
+            playlists={playlists}
+            setPlaylists={setPlaylists}
+            onPlay={(startId) =>
+              routePlaylist && playPlaylist(routePlaylist.playlist, startId)
+            }
+            navigate={navigate}
+          />
+        )}
+
+        {route.name === "search" && (
+          <SearchPage
+            query={route.query.get("q")?.trim() ?? ""}
+            index={searchIndex}
+            navigate={navigate}
+          />
+        )}
+
+        {route.name === "stories" && (
+          <StoriesPage
+            posts={listenerPosts}
+            tag={route.query.get("tag")}
+            songs={listenerSongs}
+            navigate={navigate}
+          />
+        )}
+
+        {route.name === "story" &&
+          (routePost ? (
+            <StoryPage
+              post={routePost}
+              posts={listenerPosts}
+              songs={listenerSongs}
+              onPlaySong={(song, queue) =>
+                startQueue(
+                  queue.map((s) => s.id),
+                  song.id
+                )
+              }
+              onEdit={() => navigate(`/admin/posts/${routePost.slug}`)}
+              navigate={navigate}
+            />
+          ) : (
+            <NotFound onBack={() => navigate("/stories")} />
+          ))}
+
+        {route.name === "request" && <RequestPage />}
+
+        {route.name === "guestbook" && (
+          <GuestbookPage
+            entries={guestbook}
+            onSubmit={(e) => setGuestbook([e, ...guestbook])}
+          />
+        )}
+
+        {route.name === "about" && <AboutPage />}
+
+        {route.name === "subscribe" && <SubscribePage />}
+
+        {route.name === "private" && (
+          <PrivatePage
+            unlocked={privateUnlocked}
+            expiresAt={privateSession?.expiresAt ?? null}
+            onUnlock={unlockPrivate}
+            onLock={lockPrivate}
+            songs={visibleSongs}
+            onOpenSong={openSongDetail}
+            onPlaySong={playBySong}
+          />
+        )}
+
+        {route.name === "data" && privateUnlocked && (
+          <DataPage
+            songs={songs}
+            liked={liked}
+            comments={comments}
+            guestbook={guestbook}
+            sortMode={sortMode}
+            playlists={playlists}
+            posts={posts}
+            playlistSources={exportablePlaylists}
+            setSongs={setSongs}
+            setLiked={setLiked}
+            setComments={setComments}
+            setGuestbook={setGuestbook}
+            setPlaylists={setPlaylists}
+            setPosts={setPosts}
+            onLockPrivate={lockPrivate}
+            setSortMode={setSortMode}
+          />
+        )}
+
+        {(route.name === "admin" ||
+          route.name === "adminPosts" ||
+          route.name === "data") &&
+          !privateUnlocked && (
+            <section className="max-w-3xl mx-auto px-4 py-16 text-center">
+              <h1 className="text-2xl font-semibold">
+                {route.name === "admin"
+                  ? "Manage Songs"
+                  : route.name === "adminPosts"
+                  ? "Manage Stories"
+                  : "Data (Export / Import)"}
+              </h1>
+              <p className="mt-2 text-neutral-600">
+                {route.name === "admin"
+                  ? "Song editing includes private tracks."
+                  : route.name === "adminPosts"
+                  ? "Story editing includes drafts and private posts."
+                  : "Backups include private songs, drafts and private posts."}{" "}
+                Unlock the Private section first.
+              </p>
+              <button
+                onClick={() => navigate("/private")}
+                className="mt-6 px-4 py-2 rounded-xl bg-neutral-900 text-white hover:opacity-90"
+              >
+                Go to Private
+              </button>
+            </section>
+          )}
+
+        {route.name === "admin" && privateUnlocked && (
+          <AdminSongsPage
+            songs={songs}
+            setSongs={setSongs}
+            setComments={setComments}
+            setLiked={setLiked}
+            editSlug={route.name === "admin" ? route.params.slug ?? null : null}
+            navigate={navigate}
+          />
+        )}
+
+        {route.name === "adminPosts" && privateUnlocked && (
+          <AdminPostsPage
+            posts={posts}
+            setPosts={setPosts}
+            songs={songs}
+            onPlaySong={(song) => startQueue([song.id], song.id)}
+            editSlug={route.params.slug ?? null}
+            navigate={navigate}
+          />
+        )}
+
+        {route.name === "notfound" && <NotFound onBack={() => navigate("/")} />}
+      </main>
+
+      {/* Persistent Mini Player (queue-based) */}
+      {showShortcuts && (
+        <ShortcutsOverlay onClose={() => setShowShortcuts(false)} />
+      )}
+
+      <MiniPlayer
+        playerRef={playerRef}
+        currentSong={currentSong}
+        nextSong={nextSong}
+        isPlaying={isPlaying}
+        setIsPlaying={setIsPlaying}
+        canStepPrev={canStepPrev}
+        canStepNext={canStepNext}
+        onStepPrev={() => stepQueue(-1)}
+        onStepNext={() => stepQueue(1)}
+        onEnded={() => stepQueue(1, true)}
+        onStop={stopPlayback}
+        shuffle={shuffle}
+        onToggleShuffle={toggleShuffle}
+        repeatMode={repeatMode}
+        onCycleRepeat={cycleRepeat}
+        queueSongs={queueSongs}
+        queueIndex={queueIndex}
+        onJumpTo={jumpToQueueIndex}
+        onRemoveFromQueue={removeFromQueue}
+        onMoveInQueue={moveInQueue}
+      />
+
+      {/* Footer */}
+      <footer className="print:hidden border-t border-neutral-200 py-6 text-sm">
+        <div className="max-w-6xl mx-auto px-4 flex flex-col md:flex-row items-center justify-between gap-3">
+          <p className="text-neutral-600">
+            © {new Date().getFullYear()} Brian Nay — All rights reserved.
+          </p>
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => navigate("/subscribe")}
+              className="px-3 py-2 rounded-xl bg-neutral-900 text-white hover:opacity-90"
+            >
+              Subscribe
+            </button>
+            <button
+              onClick={() => navigate("/request")}
+              className="px-3 py-2 rounded-xl border hover:bg-neutral-100"
+            >
+              Request a Song
+            </button>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+}
+
+/* -------------------------
+ * Components
+ * ------------------------- */
+function HomePage({
+  onPlaySong,
+  onPlayNext,
+  onAddToQueue,
+  onPlayAll,
+  navigate,
+  songs,
+  playlistPicker,
+}: {
+  onPlaySong: (song: Song) => void;
+  onPlayNext: (song: Song) => void;
+  onAddToQueue: (song: Song) => void;
+  onPlayAll: () => void;
+  navigate: (to: string) => void;
+  songs: Song[];
+  playlistPicker: PlaylistPicker;
+}) {
+  const latest = [...songs]
+    .filter((s) => s.visibility === "public")
+    .sort(
+      (a, b) =>
+        new Date(b.releaseDate).getTime() - new Date(a.releaseDate).getTime()
+    )[0];
+
+  return (
+    <section className="max-w-6xl mx-auto px-4 py-10">
+      <div className="rounded-3xl bg-gradient-to-br from-neutral-900 to-neutral-700 text-white p-8 md:p-12 shadow-xl">
+        <h1 className="text-3xl md:text-4xl font-semibold tracking-tight">
+          Welcome to briTunes!
+        </h1>
+        <p className="mt-2 text-neutral-200 max-w-2xl">
+          Songs and stories from the road—bluesy grit, southern rock swagger,
+          and quiet moments in between.
+        </p>
+        {latest && (
+          <div className="mt-6 flex flex-col md:flex-row items-start md:items-center gap-3">
+            <button
+              className="px-5 py-3 rounded-2xl bg-white text-neutral-900 font-medium hover:opacity-90"
+              onClick={() => onPlaySong(latest)}
+            >
+              ▶ Play Latest — {latest.title}
+            </button>
+            <button
+              className="px-5 py-3 rounded-2xl border border-white/40 hover:bg-white/10"
+              onClick={() => navigate("/music")}
+            >
+              Browse All Songs
+            </button>
+            <button
+              className="px-5 py-3 rounded-2xl border border-white/40 hover:bg-white/10"
+              onClick={onPlayAll}
+            >
+              ▶ Play All
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Featured playlist teaser */}
+      <div className="mt-10">
+        <h2 className="text-xl font-semibold">
+          Featured Playlist · New &amp; Noteworthy
+        </h2>
+        <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+          {songs
+            .filter((s) => s.visibility === "public")
+            .slice(0, 3)
+            .map((s) => (
+              <SongCard
+                key={s.id}
+                song={s}
+                onPlay={() => onPlaySong(s)}
+                onPlayNext={() => onPlayNext(s)}
+                onAddToQueue={() => onAddToQueue(s)}
+                playlistPicker={playlistPicker}
+              />
+            ))}
+        </div>
+      </div>
+    </section>
+  );
+}
+
+function MusicPage({
+  songs,
+  catalog,
+  query,
+  parsedQuery,
+  setQuery,
+  onOpenSong,
+  onPlaySong,
+  onPlayNext,
+  onAddToQueue,
+  onPlayAll,
+  liked,
+  setLiked,
+  sortMode,
+  setSortMode,
+  playlistPicker,
+}: {
+  songs: Song[];
+  catalog: Song[];
+  query: string;
+  parsedQuery: ParsedQuery;
+  setQuery: (query: string) => void;
+  onOpenSong: (song: Song) => void;
+  onPlaySong: (song: Song) => void;
+  onPlayNext: (song: Song) => void;
+  onAddToQueue: (song: Song) => void;
+  onPlayAll: () => void;
+  liked: Liked;
+  setLiked: Setter<Liked>;
+  sortMode: SortMode;
+  setSortMode: (mode: SortMode) => void;
+  playlistPicker: PlaylistPicker;
+}) {
+  // Each facet counts songs matching every other filter, so picking a
+  // second genre shows what it would add rather than zero
+  const facets = useMemo(() => {
+    const count = (
+      field: QueryField,
+      valuesOf: (s: Song) => string[]
+    ): [string, number][] => {
+      const counts = new Map<string, number>();
+      for (const s of catalog) {
+        const hit = matchesSongQuery(parsedQuery, s, liked, field);
+        for (const v of new Set(valuesOf(s)))
+          counts.set(v, (counts.get(v) ?? 0) + (hit ? 1 : 0));
+      }
+      return [...counts];
+    };
+    const byName = (a: [string, number], b: [string, number]) =>
+      a[0].localeCompare(b[0]);
+    return [
+      {
+        field: "genre" as const,
+        label: "Genre",
+        values: count("genre", (s) => [s.genre]).sort(byName),
+      },
+      {
+        field: "mood" as const,
+        label: "Mood",
+        values: count("mood", (s) => s.moods.map((m) => m.toLowerCase())).sort(
+          byName
+        ),
+      },
+      {
+        field: "year" as const,
+        label: "Year",
+        values: count("year", (s) => [s.releaseDate.slice(0, 4)]).sort((a, b) =>
+          b[0].localeCompare(a[0])
+        ),
+      },
+    ];
+  }, [catalog, parsedQuery, liked]);
+
+  const isActive = (field: QueryField, value: string) =>
+    parsedQuery.tokens.some(sameFilter(field, value));
+  const hasFilters = parsedQuery.tokens.some((t) => t.kind === "filter");
+
+  const sortLabel =
+    sortMode === "newest"
+      ? "Sorted by Newest"
+      : sortMode === "liked"
+      ? "Sorted by Most Liked"
+      : "Sorted A–Z";
+
+  return (
+    <section className="max-w-6xl mx-auto px-4 py-10">
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold">Song Library</h1>
+          <p className="text-neutral-600">
+            Browse by mood, genre, or just press play.
+          </p>
+          <p className="mt-2 text-xs text-neutral-500">
+            {sortLabel} • {songs.length} song{songs.length === 1 ? "" : "s"}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          {(
+            [
+              { key: "newest", label: "Newest" },
+              { key: "liked", label: "Most Liked" },
+              { key: "az", label: "A–Z" },
+            ] as const
+          ).map((b) => (
+            <button
+              key={b.key}
+              onClick={() => setSortMode(b.key)}
+              aria-pressed={sortMode === b.key}
+              className={classNames(
+                "px-3 py-2 rounded-xl border",
+                sortMode === b.key
+                  ? "bg-neutral-900 text-white"
+                  : "hover:bg-neutral-100"
+              )}
+            >
+              {b.label}
+            </button>
+          ))}
+          <button
+            className="ml-2 px-3 py-2 rounded-xl bg-neutral-900 text-white hover:opacity-90"
+            onClick={onPlayAll}
+            disabled={songs.length === 0}
+            title="Queue all visible songs (respects search/sort)"
+          >
+            ▶ Play All
+          </button>
+        </div>
+      </div>
+
+      <div className="mt-6 grid grid-cols-1 md:grid-cols-[14rem_1fr] gap-6 items-start">
+        <aside className="rounded-2xl border p-4 bg-white text-sm space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="font-semibold">Filter</h2>
+            {hasFilters && (
+              <button
+                className="text-xs underline underline-offset-4"
+                onClick={() =>
+                  setQuery(
+                    parsedQuery.tokens
+                      .filter((t) => t.kind === "text")
+                      .map((t) => t.raw)
+                      .join(" ")
+                  )
+                }
+              >
+                Clear filters
+              </button>
+            )}
+          </div>
+          {facets.map((f) => (
+            <div key={f.field}>
+              <h3 className="text-xs uppercase tracking-wide text-neutral-500">
+                {f.label}
+              </h3>
+              <ul className="mt-1 space-y-0.5">
+                {f.values.map(([value, n]) => {
+                  const active = isActive(f.field, value);
+                  return (
+                    <li key={value}>
+                      <button
+                        className={classNames(
+                          "w-full flex justify-between gap-2 px-2 py-1 rounded-lg text-left",
+                          active
+                            ? "bg-neutral-900 text-white"
+                            : "hover:bg-neutral-100",
+                          !active && n === 0 && "text-neutral-400"
+                        )}
+                        aria-pressed={active}
+                        onClick={() =>
+                          setQuery(toggleQueryFilter(query, f.field, value))
+                        }
+                      >
+                        <span className="capitalize truncate">{value}</span>
+                        <span className="tabular-nums">{n}</span>
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))}
+          <p className="text-xs text-neutral-500">
+            Or type filters in the search box, e.g.{" "}
+            <code>genre:"blues rock" likes:&gt;20 is:liked</code>
+          </p>
+        </aside>
+
+        <div>
+          {parsedQuery.invalid.length > 0 && (
+            <p className="mb-3 text-sm text-amber-700">
+              Ignored {parsedQuery.invalid.join(", ")} — year: and likes: take a
+              number, a comparison (&gt;20) or a range (2020..2023); is: takes
+              liked, public or private.
+            </p>
+          )}
+          {songs.length === 0 && (
+            <p className="text-neutral-600">No songs match these filters.</p>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {songs.map((s) => (
+              <div
+                key={s.id}
+                className="group rounded-2xl border p-4 hover:shadow-lg transition-shadow bg-white"
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <h3 className="font-semibold text-lg leading-tight">
+                      {s.title}
+                    </h3>
+                    <p className="text-xs text-neutral-600">
+                      {s.genre} • {s.duration}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => {
+                      setLiked((prev) => ({ ...prev, [s.id]: !prev[s.id] }));
+                    }}
+                    className={classNames(
+                      "px-2 py-1 text-xs rounded-lg border",
+                      liked[s.id]
+                        ? "bg-neutral-900 text-white"
+                        : "hover:bg-neutral-100"
+                    )}
+                  >
+                    {liked[s.id] ? "♥ Liked" : "♡ Like"}
+                  </button>
+                </div>
+                <p className="mt-2 text-sm text-neutral-700 line-clamp-2">
+                  {s.story.replaceAll("\\n", " ")}
+                </p>
+                <div className="mt-4 flex items-center justify-between">
+                  <button
+                    onClick={() => onOpenSong(s)}
+                    className="text-sm underline underline-offset-4"
+                  >
+                    View lyrics
+                  </button>
+                  <button
+                    onClick={() => onPlaySong(s)}
+                    className="px-3 py-2 rounded-xl bg-neutral-900 text-white hover:opacity-90"
+                  >
+                    Play
+                  </button>
+                </div>
+                <div className="mt-3 flex flex-wrap items-center gap-2">
+                  <QueueButtons
+                    onPlayNext={() => onPlayNext(s)}
+                    onAddToQueue={() => onAddToQueue(s)}
+                  />
+                  <AddToPlaylistMenu song={s} picker={playlistPicker} />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+}
+
+// MiniPlayer's playback time, re-read every frame while `active` and
+// rounded to 0.1s so listeners only re-render when it visibly changes
+function usePlaybackTime(
+  playerRef: React.RefObject<PlayerHandle | null>,
+  active: boolean
+) {
+  const [time, setTime] = useState(0);
+  useEffect(() => {
+    if (!active) return;
+    let frame = 0;
+    const tick = () => {
+      setTime(Math.floor((playerRef.current?.currentTime() ?? 0) * 10) / 10);
+      frame = requestAnimationFrame(tick);
+    };
+    tick();
+    return () => cancelAnimationFrame(frame);
+  }, [active, playerRef]);
+  return active ? time : 0;
+}
+
+// Follow-along view: highlights the line being sung and seeks on click
+function SyncedLyricsView({
+  lines,
+  time,
+  isCurrent,
+  onSeek,
+  onPlay,
+}: {
+  lines: SyncedLine[];
+  time: number;
+  isCurrent: boolean;
+  onSeek: (seconds: number) => void;
+  onPlay: () => void;
+}) {
+  const listRef = useRef<HTMLOListElement>(null);
+  const active = isCurrent ? activeLyricLine(lines, time) : -1;
+
+  // Keep the active line in view without scrolling the whole page
+  useEffect(() => {
+    const list = listRef.current;
+    const item = list?.children[active] as HTMLElement | undefined;
+    if (!list || !item) return;
+    list.scrollTo({
+      top: item.offsetTop - list.offsetTop - list.clientHeight / 3,
+      behavior: "smooth",
+    });
+  }, [active]);
+
+  return (
+    <ol
+      ref={listRef}
+      className="mt-2 max-h-80 overflow-y-auto space-y-0.5 text-sm leading-relaxed"
+    >
+      {lines.map((l, i) => (
+        <li key={i}>
+          <button
+            className={classNames(
+              "w-full text-left px-2 py-0.5 rounded-lg",
+              i === active
+                ? "bg-neutral-900 text-white font-medium"
+                : "text-neutral-800 hover:bg-neutral-100",
+              l.time == null && "cursor-default"
+            )}
+            onClick={() => {
+              if (l.time == null) return;
+              if (isCurrent) onSeek(l.time);
+              else onPlay();
+            }}
+            title={
+              l.time == null
+                ? undefined
+                : isCurrent
+                ? `Jump to ${formatTime(l.time)}`
+                : "Play this song to follow along"
+            }
+          >
+            {l.text}
+          </button>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+// Tap-to-time editor: play the song, then press Tap (or T) as each line
+// starts. Times can be re-tapped by selecting a line first.
+function LyricsSyncEditor({
+  song,
+  time,
+  isCurrent,
+  onSeek,
+  onPlay,
+  onSave,
+  onClose,
+}: {
+  song: Song;
+  time: number;
+  isCurrent: boolean;
+  onSeek: (seconds: number) => void;
+  onPlay: () => void;
+  onSave: (lines: SyncedLine[]) => void;
+  onClose: () => void;
+}) {
+  const [lines, setLines] = useState<SyncedLine[]>(() =>
+    song.syncedLyrics?.length
+      ? song.syncedLyrics
+      : syncLinesFromLyrics(song.lyrics)
+  );
+  const [cursor, setCursor] = useState(() =>
+    Math.max(
+      0,
+      lines.findIndex((l) => l.time == null)
+    )
+  );
+
+  const setTime = (index: number, value: number | null) =>
+    setLines((prev) =>
+      prev.map((l, i) => (i === index ? { ...l, time: value } : l))
+    );
+
+  const tap = () => {
+    if (!isCurrent || cursor >= lines.length) return;
+    setTime(cursor, time);
+    setCursor(cursor + 1);
+  };
+
+  const tapRef = useRef(tap);
+  tapRef.current = tap;
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if ((e.key === "t" || e.key === "T") && !isTypingTarget(e.target)) {
+        e.preventDefault();
+        tapRef.current();
+      }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, []);
+
+  return (
+    <div className="mt-2 grid gap-2 text-sm">
+      {!isCurrent ? (
+        <p className="text-neutral-600">
+          Start the song in the player, then tap each line as it begins.{" "}
+          <button className="underline underline-offset-4" onClick={onPlay}>
+            ▶ Play
+          </button>
+        </p>
+      ) : (
+        <div className="flex items-center gap-2">
+          <button
+            className="px-3 py-2 rounded-xl bg-neutral-900 text-white hover:opacity-90 disabled:opacity-50"
+            onClick={tap}
+            disabled={cursor >= lines.length}
+          >
+            Tap (T) at {formatLrcTime(time)}
+          </button>
+          <span className="text-xs text-neutral-600">
+            {cursor < lines.length
+              ? `Next: “${lines[cursor].text}”`
+              : "All lines timed."}
+          </span>
+        </div>
+      )}
+      <ol className="max-h-80 overflow-y-auto divide-y rounded-xl border">
+        {lines.map((l, i) => (
+          <li
+            key={i}
+            className={classNames(
+              "flex items-center gap-2 px-2 py-1",
+              i === cursor && "bg-amber-50"
+            )}
+          >
+            <button
+              className="font-mono text-xs w-20 text-left px-1 rounded hover:bg-neutral-100 disabled:text-neutral-400"
+              onClick={() => l.time != null && onSeek(l.time)}
+              disabled={l.time == null || !isCurrent}
+              title="Seek here"
+            >
+              {l.time == null ? "--:--.--" : formatLrcTime(l.time)}
+            </button>
+            <button
+              className="flex-1 text-left truncate"
+              onClick={() => setCursor(i)}
+              title="Tap this line next"
+            >
+              {l.text}
+            </button>
+            {l.time != null && (
+              <button
+                className="text-xs px-1 rounded hover:bg-neutral-100"
+                onClick={() => setTime(i, null)}
+                aria-label={`Clear time for line ${i + 1}`}
+              >
+                ×
+              </button>
+            )}
+          </li>
+        ))}
+      </ol>
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          className="px-3 py-2 rounded-xl bg-neutral-900 text-white hover:opacity-90"
+          onClick={() => onSave(lines)}
+        >
+          Save timings
+        </button>
+        <button
+          className="px-3 py-2 rounded-xl border hover:bg-neutral-100"
+          onClick={() => setLines(syncLinesFromLyrics(song.lyrics, lines))}
+          title="Pick up edits to the plain lyrics, keeping matching times"
+        >
+          Reload lines from lyrics
+        </button>
+        <button
+          className="px-3 py-2 rounded-xl border hover:bg-neutral-100"
+          onClick={onClose}
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Lyrics card: synced lines when there are any, else the plain text
+function LyricsPanel({
+  song,
+  playerRef,
+  isCurrent,
+  onPlaySong,
+  onUpdateSong,
+}: {
+  song: Song;
+  playerRef: React.RefObject<PlayerHandle | null>;
+  isCurrent: boolean;
+  onPlaySong: (song: Song) => void;
+  onUpdateSong: (id: number, patch: Partial<Song>) => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const time = usePlaybackTime(playerRef, isCurrent);
+  const synced = song.syncedLyrics?.some((l) => l.time != null)
+    ? song.syncedLyrics
+    : null;
+  const seek = (t: number) => playerRef.current?.seekTo(t);
+
+  const importLrc = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.target;
+    const file = input.files?.[0];
+    input.value = "";
+    if (!file) return;
+    try {
+      const lines = parseLrc(await file.text());
+      if (!lines.some((l) => l.time != null)) {
+        alert("No timestamps found in that file.");
+        return;
+      }
+      const lyrics = fromEditable(lines.map((l) => l.text).join("\n"));
+      const patch: Partial<Song> = { syncedLyrics: lines };
+      if (
+        lyrics !== song.lyrics &&
+        (!song.lyrics.trim() ||
+          confirm("Replace the plain lyrics with the text from this file?"))
+      )
+        patch.lyrics = lyrics;
+      onUpdateSong(song.id, patch);
+      setEditing(false);
+    } catch {
+      alert("Could not read that file.");
+    }
+  };
+
+  const exportLrc = () => {
+    if (!synced) return;
+    downloadFile(
+      `${song.slug}.lrc`,
+      toLrc(song, synced),
+      "text/plain;charset=utf-8"
+    );
+  };
+
+  return (
+    <div className="rounded-2xl border p-4 bg-white">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="font-semibold">Lyrics</h2>
+        <div className="flex flex-wrap items-center gap-1 text-xs">
+          {!editing && (
+            <button
+              className="px-2 py-1 rounded-lg border hover:bg-neutral-100"
+              onClick={() => setEditing(true)}
+            >
+              {synced ? "Edit timing" : "Sync lyrics"}
+            </button>
+          )}
+          <label className="px-2 py-1 rounded-lg border hover:bg-neutral-100 cursor-pointer">
+            Import LRC
+            <input
+              type="file"
+              accept=".lrc,text/plain"
+              className="sr-only"
+              onChange={importLrc}
+            />
+          </label>
+          {synced && (
+            <button
+              className="px-2 py-1 rounded-lg border hover:bg-neutral-100"
+              onClick={exportLrc}
+            >
+              Export LRC
+            </button>
+          )}
+        </div>
+      </div>
+      {editing ? (
+        <LyricsSyncEditor
+          song={song}
+          time={time}
+          isCurrent={isCurrent}
+          onSeek={seek}
+          onPlay={() => onPlaySong(song)}
+          onSave={(lines) => {
+            onUpdateSong(song.id, { syncedLyrics: lines });
+            setEditing(false);
+          }}
+          onClose={() => setEditing(false)}
+        />
+      ) : synced ? (
+        <SyncedLyricsView
+          lines={synced}
+          time={time}
+          isCurrent={isCurrent}
+          onSeek={seek}
+          onPlay={() => onPlaySong(song)}
+        />
+      ) : (
+        <pre className="mt-2 whitespace-pre-wrap text-sm leading-relaxed text-neutral-800">
+          {song.lyrics}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+function ChordChartView({
+  chart,
+  display,
+}: {
+  chart: ChordChart;
+  display: ChordDisplay;
+}) {
+  const shift = display.transpose - display.capo;
+  return (
+    <div className="text-sm leading-tight">
+      {chart.lines.map((line, i) => {
+        if (line.kind === "blank") return <div key={i} className="h-4" />;
+        const boxed = line.section === "chorus";
+        if (line.kind === "label")
+          return (
+            <p
+              key={i}
+              className={classNames(
+                "mt-2 text-xs font-semibold uppercase tracking-wide text-neutral-500",
+                boxed && "pl-3 border-l-2 border-neutral-300"
+              )}
+            >
+              {line.text}
+            </p>
+          );
+        return (
+          <div
+            key={i}
+            className={classNames(
+              "flex flex-wrap items-end",
+              boxed && "pl-3 border-l-2 border-neutral-300"
+            )}
+          >
+            {line.segments.map((seg, j) => (
+              <span key={j} className="inline-flex flex-col">
+                <span className="min-h-[1.25em] pr-1 font-semibold text-neutral-900">
+                  {seg.chord
+                    ? displayChord(
+                        seg.chord,
+                        shift,
+                        chart.key,
+                        display.nashville
+                      )
+                    : " "}
+                </span>
+                <span className="whitespace-pre">{seg.text || " "}</span>
+              </span>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function ChordControls({
+  chart,
+  display,
+  onChange,
+}: {
+  chart: ChordChart;
+  display: ChordDisplay;
+  onChange: (display: ChordDisplay) => void;
+}) {
+  const sounding = chart.key && transposeKey(chart.key, display.transpose);
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      <span className="flex items-center gap-1">
+        <button
+          className="px-2 py-1 rounded-lg border hover:bg-neutral-100"
+          onClick={() =>
+            onChange({
+              ...display,
+              transpose: Math.max(-11, display.transpose - 1),
+            })
+          }
+          aria-label="Transpose down a semitone"
+        >
+          −
+        </button>
+        <span className="w-20 text-center">
+          Transpose {display.transpose > 0 ? "+" : ""}
+          {display.transpose}
+        </span>
+        <button
+          className="px-2 py-1 rounded-lg border hover:bg-neutral-100"
+          onClick={() =>
+            onChange({
+              ...display,
+              transpose: Math.min(11, display.transpose + 1),
+            })
+          }
+          aria-label="Transpose up a semitone"
+        >
+          +
+        </button>
+      </span>
+      <label className="flex items-center gap-1">
+        Capo
+        <select
+          value={display.capo}
+          onChange={(e) =>
+            onChange({ ...display, capo: Number(e.target.value) })
+          }
+          className="px-2 py-1 rounded-lg border bg-white"
+        >
+          {Array.from({ length: MAX_CAPO + 1 }, (_, n) => (
+            <option key={n} value={n}>
+              {n === 0 ? "None" : n}
+            </option>
+          ))}
+        </select>
+      </label>
+      <button
+        className={classNames(
+          "px-2 py-1 rounded-lg border",
+          display.nashville
+            ? "bg-neutral-900 text-white"
+            : "hover:bg-neutral-100"
+        )}
+        onClick={() => onChange({ ...display, nashville: !display.nashville })}
+        aria-pressed={display.nashville}
+        disabled={!chart.key}
+        title={
+          chart.key ? "Nashville numbers" : "Add {key: ...} to use numbers"
+        }
+      >
+        1–4–5
+      </button>
+      {sounding && (
+        <span className="text-neutral-600">
+          Key {sounding}
+          {display.capo > 0 &&
+            ` · capo ${display.capo}, play ${transposeKey(
+              chart.key!,
+              display.transpose - display.capo
+            )} shapes`}
+        </span>
+      )}
+    </div>
+  );
+}
+
+// Chord chart card on the song page
+function SongChordsCard({
+  song,
+  navigate,
+}: {
+  song: Song;
+  navigate: (to: string) => void;
+}) {
+  const chart = useMemo(() => parseChordPro(song.chords ?? ""), [song.chords]);
+  const [display, setDisplay] = useState<ChordDisplay>({
+    transpose: 0,
+    capo: chart.capo,
+    nashville: false,
+  });
+  return (
+    <div className="mt-6 rounded-2xl border p-4 bg-white">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="font-semibold">Chords</h2>
+        <button
+          className="px-2 py-1 rounded-lg border text-xs hover:bg-neutral-100"
+          onClick={() => {
+            const query = chordDisplayQuery(display, chart.capo);
+            navigate(`/song/${song.slug}/sheet${query}`);
+          }}
+        >
+          Song sheet
+        </button>
+      </div>
+      <div className="mt-2">
+        <ChordControls chart={chart} display={display} onChange={setDisplay} />
+      </div>
+      <div className="mt-4 overflow-x-auto">
+        <ChordChartView chart={chart} display={display} />
+      </div>
+    </div>
+  );
+}
+
+// Print-friendly sheet (#/song/<slug>/sheet?transpose=&capo=&numbers=)
+function SongSheetPage({
+  song,
+  query,
+  onQueryChange,
+  navigate,
+}: {
+  song: Song | null;
+  query: URLSearchParams;
+  onQueryChange: (query: string) => void; // "" or "?transpose=…"
+  navigate: (to: string) => void;
+}) {
+  const chart = useMemo(
+    () => parseChordPro(song?.chords ?? ""),
+    [song?.chords]
+  );
+  const display = chordDisplayFromQuery(query, chart.capo);
+  if (!song?.chords?.trim())
+    return (
+      <section className="max-w-3xl mx-auto px-4 py-10">
+        <p className="text-neutral-600">
+          {song ? "This song has no chord chart yet." : "Song not found."}
+        </p>
+        <button
+          onClick={() => navigate(song ? `/song/${song.slug}` : "/music")}
+          className="mt-4 px-4 py-2 rounded-xl border"
+        >
+          Back
+        </button>
+      </section>
+    );
+
+  return (
+    <section className="max-w-3xl mx-auto px-4 py-10 print:p-0 print:max-w-none">
+      <div className="flex flex-wrap items-center justify-between gap-2 print:hidden">
+        <button
+          onClick={() => navigate(`/song/${song.slug}`)}
+          className="text-sm underline underline-offset-4"
+        >
+          ← Back to song
+        </button>
+        <button
+          onClick={() => window.print()}
+          className="px-3 py-2 rounded-xl bg-neutral-900 text-white text-sm hover:opacity-90"
+        >
+          Print
+        </button>
+      </div>
+      <div className="mt-3 print:hidden">
+        <ChordControls
+          chart={chart}
+          display={display}
+          onChange={(d) => onQueryChange(chordDisplayQuery(d, chart.capo))}
+        />
+      </div>
+      <article className="mt-6 rounded-2xl border p-6 bg-white print:border-0 print:p-0 print:mt-0">
+        <h1 className="text-2xl font-semibold">{chart.title || song.title}</h1>
+        <p className="text-sm text-neutral-600">
+          {chart.subtitle || EXPORT_ARTIST}
+          {chart.key && ` · Key ${transposeKey(chart.key, display.transpose)}`}
+          {display.capo > 0 && ` · Capo ${display.capo}`}
+          {chart.tempo && ` · ${chart.tempo} bpm`}
+        </p>
+        <div className="mt-6">
+          <ChordChartView chart={chart} display={display} />
+        </div>
+      </article>
+    </section>
+  );
+}
+
+// Clickable waveform; bars before `progress` (0–1) are filled in
+function Waveform({
+  peaks,
+  progress,
+  onSeek,
+  label,
+  className,
+}: {
+  peaks: number[];
+  progress: number;
+  onSeek: (fraction: number) => void;
+  label: string;
+  className?: string;
+}) {
+  const clamp = (f: number) => Math.min(1, Math.max(0, f));
+  const percent = Math.round(clamp(progress) * 100);
+  return (
+    <div
+      role="slider"
+      tabIndex={0}
+      aria-label={label}
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={percent}
+      aria-valuetext={`${percent}%`}
+      onClick={(e) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        onSeek(clamp((e.clientX - rect.left) / rect.width));
+      }}
+      onKeyDown={(e) => {
+        const step =
+          e.key === "ArrowRight" ? 0.05 : e.key === "ArrowLeft" ? -0.05 : 0;
+        if (!step) return;
+        e.preventDefault(); // keep the global ±5 s shortcut out of it
+        onSeek(clamp(progress + step));
+      }}
+      className={classNames(
+        "flex items-center gap-px cursor-pointer rounded focus:outline-none focus-visible:ring-2 focus-visible:ring-neutral-900",
+        className
+      )}
+    >
+      {peaks.map((peak, i) => (
+        <span
+          key={i}
+          className={classNames(
+            "flex-1 rounded-full",
+            (i + 0.5) / peaks.length <= progress
+              ? "bg-neutral-900"
+              : "bg-neutral-300"
+          )}
+          style={{ height: `${Math.max(8, peak * 100)}%` }}
+        />
+      ))}
+    </div>
+  );
+}
+
+function SongWaveform({
+  song,
+  playerRef,
+  isCurrent,
+  onPlaySong,
+}: {
+  song: Song;
+  playerRef: React.RefObject<PlayerHandle | null>;
+  isCurrent: boolean;
+  onPlaySong: (song: Song) => void;
+}) {
+  const time = usePlaybackTime(playerRef, isCurrent);
+  const seconds = parseDuration(song.duration);
+  if (!song.waveform?.length || seconds <= 0) return null;
+
+  return (
+    <div className="mt-6 rounded-2xl border p-4 bg-white">
+      <Waveform
+        peaks={song.waveform}
+        progress={isCurrent ? time / seconds : 0}
+        onSeek={(fraction) =>
+          isCurrent
+            ? playerRef.current?.seekTo(fraction * seconds)
+            : onPlaySong(song)
+        }
+        label={`Seek in ${song.title}`}
+        className="h-16"
+      />
+      <div className="mt-2 flex justify-between text-xs text-neutral-500 tabular-nums">
+        <span>{formatTime(isCurrent ? time : 0)}</span>
+        <span>{isCurrent ? "Click to seek" : "Click to play"}</span>
+        <span>{song.duration}</span>
+      </div>
+    </div>
+  );
+}
+
+function CoverPreview({ blob, className }: { blob: Blob; className?: string }) {
+  const [url, setUrl] = useState("");
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+  return url ? (
+    <img src={url} alt="Cover art from the file" className={className} />
+  ) : null;
+}
+
+type TaggedFields = Partial<Pick<Song, "title" | "genre" | "releaseDate">>;
+
+// Tags read from an audio file, with buttons to copy them onto the song
+function AudioTagsCard({
+  tags,
+  song,
+  onUse,
+}: {
+  tags: AudioTags;
+  song: Required<TaggedFields>;
+  onUse: (patch: TaggedFields) => void;
+}) {
+  const date =
+    tags.date && /^\d{4}-\d{2}-\d{2}/.test(tags.date)
+      ? tags.date.slice(0, 10)
+      : null;
+  const rows: [string, string | undefined, TaggedFields | null][] = [
+    [
+      "Title",
+      tags.title,
+      tags.title && tags.title !== song.title ? { title: tags.title } : null,
+    ],
+    ["Artist", tags.artist, null],
+    ["Album", tags.album, null],
+    [
+      "Genre",
+      tags.genre,
+      tags.genre && tags.genre !== song.genre ? { genre: tags.genre } : null,
+    ],
+    [
+      "Date",
+      tags.date,
+      date && date !== song.releaseDate ? { releaseDate: date } : null,
+    ],
+  ];
+  const found = rows.filter(([, value]) => value);
+  if (!found.length && !tags.cover) return null;
+
+  return (
+    <div className="flex gap-3 rounded-xl border p-3 text-xs">
+      {tags.cover && (
+        <CoverPreview
+          blob={tags.cover}
+          className="h-16 w-16 shrink-0 rounded-lg object-cover"
+        />
+      )}
+      <div className="min-w-0 flex-1">
+        <div className="font-medium">Tags in the file</div>
+        <dl className="mt-1 grid grid-cols-[auto_1fr_auto] items-center gap-x-2 gap-y-1">
+          {found.map(([label, value, patch]) => (
+            <React.Fragment key={label}>
+              <dt className="text-neutral-500">{label}</dt>
+              <dd className="truncate">{value}</dd>
+              <dd>
+                {patch && (
+                  <button
+                    type="button"
+                    className="px-2 py-0.5 rounded-lg border hover:bg-neutral-100"
+                    onClick={() => onUse(patch)}
+                  >
+                    Use
+                  </button>
+                )}
+              </dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      </div>
+    </div>
+  );
+}
+
+// Attach audio by URL or upload; every new file is analysed for its real
+// length, waveform and tags
+function AudioAttach({
+  song,
+  onUpdateSong,
+}: {
+  song: Song;
+  onUpdateSong: (id: number, patch: Partial<Song>) => void;
+}) {
+  const [status, setStatus] = useState("");
+  const [tags, setTags] = useState<AudioTags | null>(null);
+  const hasStoredAudio = storedAudioId(song.audioUrl) != null;
+
+  const analyse = async (
+    audioUrl: string,
+    source: Blob | string = audioUrl
+  ) => {
+    setStatus("Analysing audio…");
+    setTags(null);
+    try {
+      const analysis = await analyzeSongAudio(audioUrl, source);
+      const duration = formatTime(Math.round(analysis.duration));
+      onUpdateSong(song.id, {
+        duration,
+        waveform: analysis.peaks,
+        gainDb: analysis.gainDb ?? 0,
+      });
+      setTags(analysis.tags);
+      setStatus(
+        analysis.loudness == null
+          ? `Length ${duration}; waveform updated (the track is silent).`
+          : `Length ${duration}; loudness ${analysis.loudness.toFixed(
+              1
+            )} LUFS, ` +
+              `played at ${formatGain(analysis.gainDb ?? 0)}; waveform updated.`
+      );
+    } catch (err) {
+      setStatus(
+        err instanceof Error ? err.message : "Could not analyse the audio."
+      );
+    }
+  };
+
+  return (
+    <div className="mt-6">
+      <h3 className="font-medium text-sm">Attach Audio</h3>
+      <div className="mt-2 grid gap-2 text-sm">
+        <input
+          type="url"
+          placeholder="Paste direct MP3/WAV URL (https://...)"
+          defaultValue={hasStoredAudio ? "" : song.audioUrl}
+          className="px-3 py-2 rounded-xl border w-full"
+          onBlur={(e) => {
+            const audioUrl = (e.target as HTMLInputElement).value.trim();
+            // Leaving the field empty keeps an uploaded file attached
+            if (hasStoredAudio && !audioUrl) return;
+            if (audioUrl === song.audioUrl) return;
+            onUpdateSong(song.id, {
+              audioUrl,
+              waveform: undefined,
+              gainDb: undefined,
+            });
+            if (audioUrl) analyse(audioUrl);
+          }}
+        />
+        <label className="text-xs text-neutral-600">or upload a file</label>
+        <input
+          type="file"
+          accept="audio/*"
+          className="px-3 py-2 rounded-xl border w-full"
+          onChange={async (e) => {
+            const input = e.target as HTMLInputElement;
+            const file = input.files?.[0];
+            if (!file) return;
+            try {
+              const audioUrl = await putAudio(song.id, file);
+              onUpdateSong(song.id, {
+                audioUrl,
+                waveform: undefined,
+                gainDb: undefined,
+              });
+              analyse(audioUrl, file);
+              alert("Audio attached. Click ▶ Play to listen.");
+            } catch {
+              alert("Could not save the file in this browser.");
+            } finally {
+              input.value = "";
+            }
+          }}
+        />
+        {hasStoredAudio && (
+          <p className="text-xs text-neutral-600">
+            Using an uploaded file saved in this browser.
+          </p>
+        )}
+        {song.audioUrl && (
+          <div className="flex flex-wrap items-center gap-2 text-xs text-neutral-600">
+            <button
+              className="px-2 py-1 rounded-lg border hover:bg-neutral-100"
+              onClick={() => analyse(song.audioUrl)}
+            >
+              {song.waveform ? "Re-analyse audio" : "Analyse audio"}
+            </button>
+            {status && <span role="status">{status}</span>}
+          </div>
+        )}
+        {tags && (
+          <AudioTagsCard
+            tags={tags}
+            song={song}
+            onUse={(patch) => onUpdateSong(song.id, patch)}
+          />
+        )}
+      </div>
+
+      <div className="mt-3 text-xs text-neutral-600">
+        <p>
+          Tip: In CodeSandbox, a pasted HTTPS URL is simplest. Uploaded files
+          are kept in this browser and survive reloads; manage them on the Data
+          page. Linked files can only be analysed when their host allows it
+          (CORS).
+        </p>
+      </div>
+    </div>
+  );
+}
+
+function SongDetailPage({
+  song,
+  onPlaySong,
+  onPlayNext,
+  onAddToQueue,
+  onBack,
+  comments,
+  setComments,
+  liked,
+  setLiked,
+  onUpdateSong,
+  onEdit,
+  playlistPicker,
+  playerRef,
+  isCurrent,
+  navigate,
+}: {
+  song: Song | null;
+  onPlaySong: (song: Song) => void;
+  onPlayNext: (song: Song) => void;
+  onAddToQueue: (song: Song) => void;
+  onBack: () => void;
+  comments: CommentThreads;
+  setComments: Setter<CommentThreads>;
+  liked: Liked;
+  setLiked: Setter<Liked>;
+  onUpdateSong: (id: number, patch: Partial<Song>) => void;
+  onEdit: () => void;
+  playlistPicker: PlaylistPicker;
+  playerRef: React.RefObject<PlayerHandle | null>;
+  isCurrent: boolean; // this song is loaded in the MiniPlayer
+  navigate: (to: string) => void;
+}) {
+  if (!song)
+    return (
+      <section className="max-w-3xl mx-auto px-4 py-10">
+        <p className="text-neutral-600">Song not found.</p>
+        <button onClick={onBack} className="mt-4 px-4 py-2 rounded-xl border">
+          Back to Music
+        </button>
+      </section>
+    );
+
+  const thread = comments[song.slug] || [];
+  const shareUrl = routeUrl(`/song/${song.slug}`);
+
+  return (
+    <section className="max-w-3xl mx-auto px-4 py-10">
+      <button onClick={onBack} className="text-sm underline underline-offset-4">
+        ← Back to Music
+      </button>
+      <div className="mt-3 flex items-start justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-semibold">{song.title}</h1>
+          <p className="text-neutral-600 text-sm">
+            {song.genre} • {song.duration} • Released {song.releaseDate}
+          </p>
+          <div className="mt-2 flex flex-wrap items-center gap-2">
+            <QueueButtons
+              onPlayNext={() => onPlayNext(song)}
+              onAddToQueue={() => onAddToQueue(song)}
+            />
+            <AddToPlaylistMenu song={song} picker={playlistPicker} />
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() =>
+              setLiked((prev) => ({ ...prev, [song.id]: !prev[song.id] }))
+            }
+            className={classNames(
+              "px-3 py-2 rounded-xl border text-sm",
+              liked[song.id]
+                ? "bg-neutral-900 text-white"
+                : "hover:bg-neutral-100"
+            )}
+          >
+            {liked[song.id] ? "♥ Liked" : "♡ Like"}
+          </button>
+          <button
+            onClick={onEdit}
+            className="px-3 py-2 rounded-xl border text-sm hover:bg-neutral-100"
+          >
+            Edit
+          </button>
+          <button
+            onClick={() => onPlaySong(song)}
+            className="px-3 py-2 rounded-xl bg-neutral-900 text-white text-sm hover:opacity-90"
+          >
+            ▶ Play
+          </button>
+        </div>
+      </div>
+
+      <SongWaveform
+        song={song}
+        playerRef={playerRef}
+        isCurrent={isCurrent}
+        onPlaySong={onPlaySong}
+      />
+
+      <div className="mt-6 grid md:grid-cols-2 gap-6">
+        <LyricsPanel
+          key={song.id}
+          song={song}
+          playerRef={playerRef}
+          isCurrent={isCurrent}
+          onPlaySong={onPlaySong}
+          onUpdateSong={onUpdateSong}
+        />
+        <div className="rounded-2xl border p-4 bg-white">
+          <h2 className="font-semibold">Song Story</h2>
+          <pre className="mt-2 whitespace-pre-wrap text-sm leading-relaxed text-neutral-800">
+            {song.story}
+          </pre>
+
+          <AudioAttach key={song.id} song={song} onUpdateSong={onUpdateSong} />
+
+          <div className="mt-6">
+            <h3 className="font-medium text-sm">Share</h3>
+            <button
+              className="mt-2 px-3 py-2 rounded-xl border text-sm hover:bg-neutral-100"
+              onClick={async () => {
+                try {
+                  await navigator.clipboard.writeText(shareUrl);
+                  alert("Song link copied to clipboard.");
+                } catch {
+                  alert("Link copied (simulated).");
+                }
+              }}
+            >
+              Copy link
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {song.chords?.trim() && (
+        <SongChordsCard key={song.id} song={song} navigate={navigate} />
+      )}
+
+      <div className="mt-6 rounded-2xl border p-4 bg-white">
+        <h2 className="font-semibold">Comments</h2>
+        <CommentForm
+          onSubmit={(entry) => {
+            const item: Comment = {
+              ...entry,
+              createdAt: new Date().toISOString(),
+            };
+            setComments((prev) => ({
+              ...prev,
+              [song.slug]: [item, ...thread],
+            }));
+          }}
+        />
+        <div className="mt-4 space-y-3">
+          {thread.length === 0 && (
+            <p className="text-sm text-neutral-600">
+              No comments yet—be the first to share a thought.
+            </p>
+          )}
+          {thread.map((c, idx) => (
+            <div key={idx} className="rounded-xl border p-3">
+              <div className="text-sm">
+                <span className="font-medium">{c.name}</span>{" "}
+                <span className="text-neutral-500">
+                  · {new Date(c.createdAt).toLocaleString()}
+                </span>
+              </div>
+              <p className="text-sm mt-1">{c.message}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+}
+
+/* -------------------------
+ * Playlists (#/playlists, #/playlist/<slug>)
+ * ------------------------- */
+const likeCount = (song: Song, liked: Liked) =>
+  song.likes + (liked[song.id] ? 1 : 0);
+
+function sortSongs(songs: Song[], sort: SmartSort, liked: Liked) {
+  const byDate = (a: Song, b: Song) =>
+    new Date(b.releaseDate).getTime() - new Date(a.releaseDate).getTime();
+  const compare: Record<SmartSort, (a: Song, b: Song) => number> = {
+    newest: byDate,
+    oldest: (a, b) => byDate(b, a),
+    liked: (a, b) => likeCount(b, liked) - likeCount(a, liked),
+    az: (a, b) => a.title.localeCompare(b.title),
+  };
+  return songs.slice().sort(compare[sort]);
+}
+
+function matchesRule(rule: SmartRule, song: Song, liked: Liked) {
+  switch (rule.kind) {
+    case "genre":
+      return song.genre.toLowerCase().includes(rule.text.trim().toLowerCase());
+    case "moods": {
+      const moods = song.moods.map((m) => m.toLowerCase());
+      const has = (m: string) => moods.includes(m.toLowerCase());
+      return rule.match === "all"
+        ? rule.moods.every(has)
+        : rule.moods.some(has);
+    }
+    case "released":
+      return (
+        (!rule.from || song.releaseDate >= rule.from) &&
+        (!rule.to || song.releaseDate <= rule.to)
+      );
+    case "likes":
+      return likeCount(song, liked) > rule.min;
+    case "liked":
+      return !!liked[song.id];
+    case "visibility":
+      return song.visibility === rule.visibility;
+  }
+}
+
+// Songs picked by a smart playlist's rules; no rules means every song
+function smartPlaylistSongs(
+  criteria: SmartCriteria,
+  songs: Song[],
+  liked: Liked
+) {
+  const { rules } = criteria;
+  const hits = songs.filter(
+    (s) =>
+      !rules.length ||
+      (criteria.match === "all"
+        ? rules.every((r) => matchesRule(r, s, liked))
+        : rules.some((r) => matchesRule(r, s, liked)))
+  );
+  const sorted = sortSongs(hits, criteria.sort, liked);
+  return criteria.limit != null ? sorted.slice(0, criteria.limit) : sorted;
+}
+
+function describeRule(rule: SmartRule) {
+  switch (rule.kind) {
+    case "genre":
+      return `Genre contains “${rule.text}”`;
+    case "moods":
+      return `Mood includes ${rule.match} of: ${rule.moods.join(", ") || "—"}`;
+    case "released":
+      if (rule.from && rule.to) return `Released ${rule.from} to ${rule.to}`;
+      if (rule.from) return `Released on or after ${rule.from}`;
+      if (rule.to) return `Released on or before ${rule.to}`;
+      return "Any release date";
+    case "likes":
+      return `More than ${rule.min} likes`;
+    case "liked":
+      return "Liked by me";
+    case "visibility":
+      return `Visibility is ${rule.visibility}`;
+  }
+}
+
+const SMART_SORT_LABELS: Record<SmartSort, string> = {
+  newest: "Newest first",
+  oldest: "Oldest first",
+  liked: "Most liked",
+  az: "A–Z",
+};
+
+// The mood/theme sets that ship with the site. Read-only, not stored, and
+// kept on negative ids so they never collide with listener playlists.
+const MOOD_THEMES: { name: string; rule: SmartRule }[] = [
+  {
+    name: "Uplifting",
+    rule: { kind: "moods", match: "any", moods: ["uplifting"] },
+  },
+  {
+    name: "Reflective",
+    rule: { kind: "moods", match: "any", moods: ["reflective"] },
+  },
+  { name: "Southern Rock", rule: { kind: "genre", text: "southern" } },
+];
+
+const BUILT_IN_PLAYLISTS: Playlist[] = MOOD_THEMES.map(({ name, rule }, i) => ({
+  id: -(i + 1),
+  name,
+  slug: slugify(name),
+  songIds: [],
+  smart: {
+    match: "all",
+    rules: [rule, { kind: "visibility", visibility: "public" }],
+    sort: "newest",
+    limit: null,
+  },
+  createdAt: "2025-01-01T00:00:00.000Z",
+  updatedAt: "2025-01-01T00:00:00.000Z",
+}));
+
+const isBuiltIn = (playlist: Playlist) => playlist.id < 0;
+
+function makePlaylist(
+  name: string,
+  playlists: Playlist[],
+  songIds: number[] = []
+): Playlist {
+  const now = new Date().toISOString();
+  const clean = name.trim();
+  return {
+    id: Math.max(0, ...playlists.map((p) => p.id)) + 1,
+    name: clean,
+    slug: uniqueSlug(slugify(clean) || "playlist", [
+      ...BUILT_IN_PLAYLISTS,
+      ...playlists,
+    ]),
+    songIds,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// Applies `patch` to one playlist; a new name also gets a new slug
+function updatePlaylist(
+  playlists: Playlist[],
+  id: number,
+  patch: Partial<Pick<Playlist, "name" | "songIds" | "smart">>
+) {
+  return playlists.map((p) => {
+    if (p.id !== id) return p;
+    const next = { ...p, ...patch, updatedAt: new Date().toISOString() };
+    if (patch.name != null && patch.name.trim() !== p.name) {
+      next.name = patch.name.trim();
+      next.slug = uniqueSlug(
+        slugify(next.name) || "playlist",
+        [...BUILT_IN_PLAYLISTS, ...playlists],
+        id
+      );
+    }
+    return next;
+  });
+}
+
+// Share links carry the name and public song slugs, so they open anywhere:
+// #/playlist/<slug>?name=...&songs=slug-a,slug-b (a smart playlist is shared
+// as a snapshot of its current songs). Built-ins exist everywhere already.
+function playlistShareUrl(playlist: Playlist, songs: Song[]) {
+  const base = routeUrl(`/playlist/${playlist.slug}`);
+  if (isBuiltIn(playlist)) return base;
+  const params = new URLSearchParams({
+    name: playlist.name,
+    songs: songs
+      .filter((s) => s.visibility === "public")
+      .map((s) => s.slug)
+      .join(","),
+  });
+  return `${base}?${params}`;
+}
+
+function sharedPlaylist(slug: string, params: URLSearchParams, songs: Song[]) {
+  const name = params.get("name")?.trim();
+  const slugs = (params.get("songs") ?? "").split(",").filter(Boolean);
+  if (!name || !slugs.length) return null;
+  const songIds = slugs
+    .map(
+      (x) => songs.find((s) => s.slug === x && s.visibility === "public")?.id
+    )
+    .filter((id): id is number => id != null);
+  const now = new Date().toISOString();
+  const playlist: Playlist = {
+    id: 0,
+    name,
+    slug,
+    songIds,
+    createdAt: now,
+    updatedAt: now,
+  };
+  return { playlist, shared: true };
+}
+
+function PlaylistsPage({
+  playlists,
+  setPlaylists,
+  resolvePlaylist,
+  onPlayPlaylist,
+  navigate,
+}: {
+  playlists: Playlist[];
+  setPlaylists: Setter<Playlist[]>;
+  resolvePlaylist: (playlist: Playlist) => Song[];
+  onPlayPlaylist: (playlist: Playlist, startId?: number | null) => void;
+  navigate: (to: string) => void;
+}) {
+  const [name, setName] = useState("");
+  const [creatingSmart, setCreatingSmart] = useState(false);
+  const [renaming, setRenaming] = useState<{ id: number; name: string } | null>(
+    null
+  );
+
+  const create = () => {
+    if (!name.trim()) return;
+    setPlaylists([...playlists, makePlaylist(name, playlists)]);
+    setName("");
+  };
+
+  const saveRename = () => {
+    if (!renaming) return;
+    if (renaming.name.trim())
+      setPlaylists(
+        updatePlaylist(playlists, renaming.id, { name: renaming.name })
+      );
+    setRenaming(null);
+  };
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= playlists.length) return;
+    const next = playlists.slice();
+    const [p] = next.splice(from, 1);
+    next.splice(to, 0, p);
+    setPlaylists(next);
+  };
+
+  const remove = (playlist: Playlist) => {
+    if (!confirm(`Delete the playlist “${playlist.name}”?`)) return;
+    setPlaylists(playlists.filter((p) => p.id !== playlist.id));
+  };
+
+  return (
     <section className="max-w-6xl mx-auto px-4 py-10">
-      <div className="flex items-end justify-between gap-4">
+      <h1 className="text-2xl font-semibold">Your Playlists</h1>
+      <p className="text-neutral-600">
+        Make your own sets. Add songs with “+ Playlist” on any song.
+      </p>
+      <form
+        className="mt-4 flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          create();
+        }}
+      >
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="New playlist name"
+          className="w-full md:w-72 px-3 py-2 rounded-xl border"
+        />
+        <button
+          type="submit"
+          className="px-4 py-2 rounded-xl bg-neutral-900 text-white hover:opacity-90 disabled:opacity-50"
+          disabled={!name.trim()}
+        >
+          Create
+        </button>
+        <button
+          type="button"
+          className="px-4 py-2 rounded-xl border hover:bg-neutral-100 whitespace-nowrap"
+          onClick={() => setCreatingSmart(true)}
+        >
+          + Smart playlist
+        </button>
+      </form>
+
+      {creatingSmart && (
+        <SmartPlaylistEditor
+          name={name}
+          criteria={{ match: "all", rules: [], sort: "newest", limit: null }}
+          resolvePlaylist={resolvePlaylist}
+          onSave={(smartName, smart) => {
+            setPlaylists([
+              ...playlists,
+              { ...makePlaylist(smartName, playlists), smart },
+            ]);
+            setCreatingSmart(false);
+            setName("");
+          }}
+          onCancel={() => setCreatingSmart(false)}
+        />
+      )}
+
+      {playlists.length === 0 ? (
+        <p className="mt-6 text-sm text-neutral-600">No playlists yet.</p>
+      ) : (
+        <ul className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+          {playlists.map((p, i) => {
+            const count = resolvePlaylist(p).length;
+            return (
+              <li key={p.id} className="rounded-2xl border p-4 bg-white">
+                {renaming?.id === p.id ? (
+                  <form
+                    className="flex gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      saveRename();
+                    }}
+                  >
+                    <input
+                      autoFocus
+                      value={renaming.name}
+                      onChange={(e) =>
+                        setRenaming({ ...renaming, name: e.target.value })
+                      }
+                      onKeyDown={(e) => e.key === "Escape" && setRenaming(null)}
+                      className="flex-1 px-3 py-1 rounded-xl border text-sm"
+                      aria-label="Playlist name"
+                    />
+                    <button
+                      type="submit"
+                      className="text-xs px-2 py-1 rounded-lg border hover:bg-neutral-100"
+                    >
+                      Save
+                    </button>
+                  </form>
+                ) : (
+                  <button
+                    className="font-semibold underline-offset-4 hover:underline text-left"
+                    onClick={() => navigate(`/playlist/${p.slug}`)}
+                  >
+                    {p.name}
+                  </button>
+                )}
+                <p className="text-xs text-neutral-600">
+                  {p.smart ? "Smart · " : ""}
+                  {count} song{count === 1 ? "" : "s"}
+                </p>
+                <div className="mt-3 flex flex-wrap items-center gap-2 text-xs">
+                  <button
+                    className="px-2 py-1 rounded-lg border hover:bg-neutral-100 disabled:opacity-50"
+                    onClick={() => onPlayPlaylist(p)}
+                    disabled={count === 0}
+                  >
+                    ▶ Play
+                  </button>
+                  <button
+                    className="px-2 py-1 rounded-lg border hover:bg-neutral-100"
+                    onClick={() => setRenaming({ id: p.id, name: p.name })}
+                  >
+                    Rename
+                  </button>
+                  <button
+                    className="px-2 py-1 rounded-lg border hover:bg-neutral-100 disabled:opacity-50"
+                    onClick={() => move(i, i - 1)}
+                    disabled={i === 0}
+                    aria-label={`Move ${p.name} up`}
+                  >
+                    ↑
+                  </button>
+                  <button
+                    className="px-2 py-1 rounded-lg border hover:bg-neutral-100 disabled:opacity-50"
+                    onClick={() => move(i, i + 1)}
+                    disabled={i === playlists.length - 1}
+                    aria-label={`Move ${p.name} down`}
+                  >
+                    ↓
+                  </button>
+                  <button
+                    className="px-2 py-1 rounded-lg border hover:bg-neutral-100"
+                    onClick={() => remove(p)}
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <h2 className="mt-10 text-xl font-semibold">By Mood/Theme</h2>
+      <p className="text-neutral-600">Handpicked sets to match the moment.</p>
+      <div className="mt-6 grid grid-cols-1 md:grid-cols-3 gap-4">
+        {BUILT_IN_PLAYLISTS.map((p) => {
+          const list = resolvePlaylist(p);
+          return (
+            <div key={p.id} className="rounded-2xl border p-4 bg-white">
+              <button
+                className="font-semibold underline-offset-4 hover:underline"
+                onClick={() => navigate(`/playlist/${p.slug}`)}
+              >
+                {p.name}
+              </button>
+              <ul className="mt-2 text-sm list-disc list-inside text-neutral-700">
+                {list.slice(0, 5).map((s) => (
+                  <li key={s.id} className="flex items-center justify-between">
+                    <button
+                      className="underline underline-offset-4"
+                      onClick={() => navigate(`/song/${s.slug}`)}
+                    >
+                      {s.title}
+                    </button>
+                    <button
+                      className="text-xs px-2 py-1 rounded-lg border hover:bg-neutral-100"
+                      onClick={() => onPlayPlaylist(p, s.id)}
+                    >
+                      ▶ Play
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              {list.length > 5 && (
+                <button
+                  className="mt-2 text-xs underline underline-offset-4"
+                  onClick={() => navigate(`/playlist/${p.slug}`)}
+                >
+                  View all {list.length}
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
+
+function PlaylistPage({
+  playlist,
+  shared,
+  resolvePlaylist,
+  songs,
+  playlists,
+  setPlaylists,
+  onPlay,
+  navigate,
+}: {
+  playlist: Playlist | null;
+  shared: boolean;
+  resolvePlaylist: (playlist: Playlist) => Song[];
+  songs: Song[];
+  playlists: Playlist[];
+  setPlaylists: Setter<Playlist[]>;
+  onPlay: (startId: number | null) => void;
+  navigate: (to: string) => void;
+}) {
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [editingRules, setEditingRules] = useState(false);
+
+  if (!playlist)
+    return (
+      <section className="max-w-3xl mx-auto px-4 py-10">
+        <p className="text-neutral-600">Playlist not found.</p>
+        <button
+          onClick={() => navigate("/playlists")}
+          className="mt-4 px-4 py-2 rounded-xl border"
+        >
+          Back to Playlists
+        </button>
+      </section>
+    );
+
+  const builtIn = isBuiltIn(playlist);
+  const editable = !shared && !builtIn;
+  // Only hand-picked playlists have an order of their own to edit
+  const manual = editable && !playlist.smart;
+
+  const save = () => {
+    const copy = makePlaylist(playlist.name, playlists, playlist.songIds);
+    setPlaylists([...playlists, copy]);
+    navigate(`/playlist/${copy.slug}`);
+  };
+
+  const duplicate = () => {
+    const copy: Playlist = {
+      ...makePlaylist(`${playlist.name} (copy)`, playlists),
+      smart: playlist.smart,
+    };
+    setPlaylists([...playlists, copy]);
+    navigate(`/playlist/${copy.slug}`);
+  };
+
+  const saveRules = (name: string, smart: SmartCriteria) => {
+    setEditingRules(false);
+    const next = updatePlaylist(playlists, playlist.id, { name, smart });
+    setPlaylists(next);
+    const slug = next.find((p) => p.id === playlist.id)?.slug;
+    if (slug && slug !== playlist.slug) navigate(`/playlist/${slug}`);
+  };
+
+  const rename = () => {
+    const name = renaming?.trim();
+    setRenaming(null);
+    if (!name || name === playlist.name) return;
+    const next = updatePlaylist(playlists, playlist.id, { name });
+    setPlaylists(next);
+    const slug = next.find((p) => p.id === playlist.id)?.slug;
+    if (slug) navigate(`/playlist/${slug}`);
+  };
+
+  const remove = () => {
+    if (!confirm(`Delete the playlist “${playlist.name}”?`)) return;
+    setPlaylists(playlists.filter((p) => p.id !== playlist.id));
+    navigate("/playlists");
+  };
+
+  // Reorders the visible songs; hidden ones (deleted, or private while
+  // locked) keep their slots in songIds
+  const reorder = (from: number, to: number) => {
+    if (to < 0 || to >= songs.length) return;
+    const order = songs.map((s) => s.id);
+    const [id] = order.splice(from, 1);
+    order.splice(to, 0, id);
+    const visible = new Set(order);
+    let i = 0;
+    const songIds = playlist.songIds.map((x) =>
+      visible.has(x) ? order[i++] : x
+    );
+    setPlaylists(updatePlaylist(playlists, playlist.id, { songIds }));
+  };
+
+  const removeSong = (song: Song) =>
+    setPlaylists(
+      updatePlaylist(playlists, playlist.id, {
+        songIds: playlist.songIds.filter((id) => id !== song.id),
+      })
+    );
+
+  return (
+    <section className="max-w-3xl mx-auto px-4 py-10">
+      <button
+        onClick={() => navigate("/playlists")}
+        className="text-sm underline underline-offset-4"
+      >
+        ← Back to Playlists
+      </button>
+      <div className="mt-3 flex flex-wrap items-start justify-between gap-3">
+        <div>
+          {renaming != null ? (
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                rename();
+              }}
+            >
+              <input
+                autoFocus
+                value={renaming}
+                onChange={(e) => setRenaming(e.target.value)}
+                onKeyDown={(e) => e.key === "Escape" && setRenaming(null)}
+                className="px-3 py-2 rounded-xl border"
+                aria-label="Playlist name"
+              />
+              <button
+                type="submit"
+                className="px-3 py-2 rounded-xl border hover:bg-neutral-100"
+              >
+                Save
+              </button>
+            </form>
+          ) : (
+            <h1 className="text-2xl font-semibold">{playlist.name}</h1>
+          )}
+          <p className="text-neutral-600 text-sm">
+            {shared
+              ? "Shared playlist · "
+              : builtIn
+              ? "Built-in smart playlist · "
+              : playlist.smart
+              ? "Smart playlist · "
+              : ""}
+            {songs.length} song{songs.length === 1 ? "" : "s"}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <button
+            className="px-3 py-2 rounded-xl bg-neutral-900 text-white hover:opacity-90 disabled:opacity-50"
+            onClick={() => onPlay(null)}
+            disabled={songs.length === 0}
+          >
+            ▶ Play All
+          </button>
+          {shared ? (
+            <button
+              className="px-3 py-2 rounded-xl border hover:bg-neutral-100"
+              onClick={save}
+            >
+              Save to my playlists
+            </button>
+          ) : (
+            <button
+              className="px-3 py-2 rounded-xl border hover:bg-neutral-100"
+              onClick={async () => {
+                try {
+                  await navigator.clipboard.writeText(
+                    playlistShareUrl(playlist, songs)
+                  );
+                  alert("Playlist link copied to clipboard.");
+                } catch {
+                  alert("Link copied (simulated).");
+                }
+              }}
+            >
+              Copy link
+            </button>
+          )}
+          {editable && playlist.smart && (
+            <button
+              className="px-3 py-2 rounded-xl border hover:bg-neutral-100"
+              onClick={() => setEditingRules(true)}
+            >
+              Edit rules
+            </button>
+          )}
+          {!shared && playlist.smart && (
+            <button
+              className="px-3 py-2 rounded-xl border hover:bg-neutral-100"
+              onClick={duplicate}
+            >
+              Duplicate
+            </button>
+          )}
+          {editable && (
+            <>
+              <button
+                className="px-3 py-2 rounded-xl border hover:bg-neutral-100"
+                onClick={() => setRenaming(playlist.name)}
+              >
+                Rename
+              </button>
+              <button
+                className="px-3 py-2 rounded-xl border hover:bg-neutral-100"
+                onClick={remove}
+              >
+                Delete
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {playlist.smart &&
+        (editingRules ? (
+          <SmartPlaylistEditor
+            name={playlist.name}
+            criteria={playlist.smart}
+            resolvePlaylist={resolvePlaylist}
+            onSave={saveRules}
+            onCancel={() => setEditingRules(false)}
+          />
+        ) : (
+          <div className="mt-4 rounded-2xl border p-4 bg-white text-sm">
+            <p className="font-medium">
+              {playlist.smart.rules.length === 0
+                ? "Every song"
+                : `Songs matching ${
+                    playlist.smart.match === "all" ? "all" : "any"
+                  } of:`}
+            </p>
+            <ul className="mt-1 list-disc list-inside text-neutral-700">
+              {playlist.smart.rules.map((r, i) => (
+                <li key={i}>{describeRule(r)}</li>
+              ))}
+            </ul>
+            <p className="mt-2 text-xs text-neutral-500">
+              {SMART_SORT_LABELS[playlist.smart.sort]}
+              {playlist.smart.limit != null &&
+                ` · at most ${playlist.smart.limit} songs`}
+              {" · updates as songs and likes change"}
+            </p>
+          </div>
+        ))}
+
+      {songs.length === 0 ? (
+        <p className="mt-6 text-sm text-neutral-600">
+          {shared
+            ? "None of the songs in this link are available."
+            : playlist.smart
+            ? "No songs match these rules right now."
+            : "This playlist is empty. Add songs with “+ Playlist” on the Music page."}
+        </p>
+      ) : (
+        <ol className="mt-6 rounded-2xl border bg-white divide-y">
+          {songs.map((s, i) => (
+            <li key={s.id} className="px-4 py-3 flex items-center gap-3">
+              <span className="w-6 text-right text-xs text-neutral-500">
+                {i + 1}
+              </span>
+              <div className="flex-1 min-w-0">
+                <button
+                  className="font-medium truncate underline-offset-4 hover:underline text-left"
+                  onClick={() => navigate(`/song/${s.slug}`)}
+                >
+                  {s.title}
+                </button>
+                <p className="text-xs text-neutral-600">
+                  {s.genre} • {s.duration}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 text-xs">
+                <button
+                  className="px-2 py-1 rounded-lg border hover:bg-neutral-100"
+                  onClick={() => onPlay(s.id)}
+                >
+                  ▶ Play
+                </button>
+                {manual && (
+                  <>
+                    <button
+                      className="px-2 py-1 rounded-lg border hover:bg-neutral-100 disabled:opacity-50"
+                      onClick={() => reorder(i, i - 1)}
+                      disabled={i === 0}
+                      aria-label={`Move ${s.title} up`}
+                    >
+                      ↑
+                    </button>
+                    <button
+                      className="px-2 py-1 rounded-lg border hover:bg-neutral-100 disabled:opacity-50"
+                      onClick={() => reorder(i, i + 1)}
+                      disabled={i === songs.length - 1}
+                      aria-label={`Move ${s.title} down`}
+                    >
+                      ↓
+                    </button>
+                    <button
+                      className="px-2 py-1 rounded-lg border hover:bg-neutral-100"
+                      onClick={() => removeSong(s)}
+                      aria-label={`Remove ${s.title} from playlist`}
+                    >
+                      ✕
+                    </button>
+                  </>
+                )}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+}
+
+const RULE_LABELS: Record<SmartRule["kind"], string> = {
+  genre: "Genre contains",
+  moods: "Mood includes",
+  released: "Released between",
+  likes: "Likes above",
+  liked: "Liked by me",
+  visibility: "Visibility is",
+};
+
+const RULE_DEFAULTS: { [K in SmartRule["kind"]]: RuleOf<K> } = {
+  genre: { kind: "genre", text: "" },
+  moods: { kind: "moods", match: "any", moods: [] },
+  released: { kind: "released", from: "", to: "" },
+  likes: { kind: "likes", min: 0 },
+  liked: { kind: "liked" },
+  visibility: { kind: "visibility", visibility: "public" },
+};
+
+function SmartPlaylistEditor({
+  name: initialName,
+  criteria: initialCriteria,
+  resolvePlaylist,
+  onSave,
+  onCancel,
+}: {
+  name: string;
+  criteria: SmartCriteria;
+  resolvePlaylist: (playlist: Playlist) => Song[];
+  onSave: (name: string, criteria: SmartCriteria) => void;
+  onCancel: () => void;
+}) {
+  const [name, setName] = useState(initialName);
+  const [criteria, setCriteria] = useState(initialCriteria);
+
+  const set = <K extends keyof SmartCriteria>(
+    key: K,
+    value: SmartCriteria[K]
+  ) => setCriteria({ ...criteria, [key]: value });
+  const setRule = (index: number, rule: SmartRule) =>
+    set(
+      "rules",
+      criteria.rules.map((r, i) => (i === index ? rule : r))
+    );
+
+  // Live preview through the same resolver the playlist page uses
+  const preview = resolvePlaylist({
+    id: 0,
+    name,
+    slug: "preview",
+    songIds: [],
+    smart: criteria,
+    createdAt: "",
+    updatedAt: "",
+  });
+
+  const ruleFields = (rule: SmartRule, i: number) => {
+    switch (rule.kind) {
+      case "genre":
+        return (
+          <input
+            value={rule.text}
+            onChange={(e) => setRule(i, { ...rule, text: e.target.value })}
+            placeholder="e.g. blues"
+            className="flex-1 min-w-0 px-3 py-1 rounded-xl border"
+            aria-label="Genre text"
+          />
+        );
+      case "moods":
+        return (
+          <div className="flex-1 min-w-0 flex flex-wrap items-center gap-2">
+            <select
+              value={rule.match}
+              onChange={(e) =>
+                setRule(i, { ...rule, match: e.target.value as "any" | "all" })
+              }
+              className="px-2 py-1 rounded-xl border bg-white"
+              aria-label="Mood match"
+            >
+              <option value="any">any of</option>
+              <option value="all">all of</option>
+            </select>
+            <div className="flex-1 min-w-[10rem]">
+              <TagInput
+                tags={rule.moods}
+                onChange={(moods) => setRule(i, { ...rule, moods })}
+                placeholder="Type a mood and press Enter"
+              />
+            </div>
+          </div>
+        );
+      case "released":
+        return (
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="date"
+              value={rule.from}
+              onChange={(e) => setRule(i, { ...rule, from: e.target.value })}
+              className="px-2 py-1 rounded-xl border"
+              aria-label="Released from"
+            />
+            <span className="text-neutral-500">and</span>
+            <input
+              type="date"
+              value={rule.to}
+              onChange={(e) => setRule(i, { ...rule, to: e.target.value })}
+              className="px-2 py-1 rounded-xl border"
+              aria-label="Released to"
+            />
+          </div>
+        );
+      case "likes":
+        return (
+          <input
+            type="number"
+            min={0}
+            value={rule.min}
+            onChange={(e) =>
+              setRule(i, { ...rule, min: Math.max(0, Number(e.target.value)) })
+            }
+            className="w-24 px-3 py-1 rounded-xl border"
+            aria-label="Minimum likes"
+          />
+        );
+      case "liked":
+        return null;
+      case "visibility":
+        return (
+          <select
+            value={rule.visibility}
+            onChange={(e) =>
+              setRule(i, {
+                ...rule,
+                visibility: e.target.value as Visibility,
+              })
+            }
+            className="px-2 py-1 rounded-xl border bg-white"
+            aria-label="Visibility"
+          >
+            <option value="public">public</option>
+            <option value="private">private</option>
+          </select>
+        );
+    }
+  };
+
+  return (
+    <div className="mt-4 rounded-2xl border p-4 bg-white text-sm space-y-3">
+      <label className="grid gap-1">
+        <span className="text-neutral-600">Name</span>
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Smart playlist name"
+          className="px-3 py-2 rounded-xl border"
+        />
+      </label>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-neutral-600">Songs matching</span>
+        <select
+          value={criteria.match}
+          onChange={(e) => set("match", e.target.value as "all" | "any")}
+          className="px-2 py-1 rounded-xl border bg-white"
+          aria-label="Combine rules"
+        >
+          <option value="all">all rules (AND)</option>
+          <option value="any">any rule (OR)</option>
+        </select>
+      </div>
+
+      <ul className="space-y-2">
+        {criteria.rules.map((rule, i) => (
+          <li key={i} className="flex flex-wrap items-center gap-2">
+            <select
+              value={rule.kind}
+              onChange={(e) =>
+                setRule(i, RULE_DEFAULTS[e.target.value as SmartRule["kind"]])
+              }
+              className="px-2 py-1 rounded-xl border bg-white"
+              aria-label="Rule"
+            >
+              {(Object.keys(RULE_LABELS) as SmartRule["kind"][]).map((k) => (
+                <option key={k} value={k}>
+                  {RULE_LABELS[k]}
+                </option>
+              ))}
+            </select>
+            {ruleFields(rule, i)}
+            <button
+              className="text-xs px-2 py-1 rounded-lg border hover:bg-neutral-100"
+              onClick={() =>
+                set(
+                  "rules",
+                  criteria.rules.filter((_, j) => j !== i)
+                )
+              }
+              aria-label="Remove rule"
+            >
+              ✕
+            </button>
+          </li>
+        ))}
+      </ul>
+      <button
+        className="text-xs px-2 py-1 rounded-lg border hover:bg-neutral-100"
+        onClick={() => set("rules", [...criteria.rules, RULE_DEFAULTS.genre])}
+      >
+        + Add rule
+      </button>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2">
+          <span className="text-neutral-600">Sort</span>
+          <select
+            value={criteria.sort}
+            onChange={(e) => set("sort", e.target.value as SmartSort)}
+            className="px-2 py-1 rounded-xl border bg-white"
+          >
+            {(Object.keys(SMART_SORT_LABELS) as SmartSort[]).map((k) => (
+              <option key={k} value={k}>
+                {SMART_SORT_LABELS[k]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <span className="text-neutral-600">Limit</span>
+          <input
+            type="number"
+            min={1}
+            value={criteria.limit ?? ""}
+            onChange={(e) =>
+              set(
+                "limit",
+                e.target.value ? Math.max(1, Number(e.target.value)) : null
+              )
+            }
+            placeholder="none"
+            className="w-24 px-3 py-1 rounded-xl border"
+          />
+        </label>
+      </div>
+
+      <p className="text-neutral-600">
+        Matches {preview.length} song{preview.length === 1 ? "" : "s"}
+        {preview.length > 0 &&
+          `: ${preview
+            .slice(0, 5)
+            .map((s) => s.title)
+            .join(", ")}${preview.length > 5 ? ", …" : ""}`}
+      </p>
+
+      <div className="flex gap-2">
+        <button
+          className="px-4 py-2 rounded-xl bg-neutral-900 text-white hover:opacity-90 disabled:opacity-50"
+          onClick={() => onSave(name, criteria)}
+          disabled={!name.trim()}
+        >
+          Save
+        </button>
+        <button
+          className="px-4 py-2 rounded-xl border hover:bg-neutral-100"
+          onClick={onCancel}
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+const SEARCH_GROUPS: { type: SearchType; title: string }[] = [
+  { type: "song", title: "Songs" },
+  { type: "post", title: "Stories" },
+  { type: "comment", title: "Comments" },
+];
+
+function SearchPage({
+  query,
+  index,
+  navigate,
+}: {
+  query: string;
+  index: SearchIndex;
+  navigate: (to: string) => void;
+}) {
+  const [text, setText] = useState(query);
+  useEffect(() => setText(query), [query]);
+
+  const results = useMemo(() => search(index, query), [index, query]);
+
+  return (
+    <section className="max-w-3xl mx-auto px-4 py-10">
+      <h1 className="text-2xl font-semibold">Search</h1>
+      <form
+        className="mt-4 flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          navigate(`/search?q=${encodeURIComponent(text.trim())}`);
+        }}
+      >
+        <input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Lyrics, stories, comments…"
+          className="flex-1 px-3 py-2 rounded-xl border"
+          aria-label="Search"
+        />
+        <button
+          type="submit"
+          className="px-4 py-2 rounded-xl bg-neutral-900 text-white hover:opacity-90"
+        >
+          Search
+        </button>
+      </form>
+
+      {!query ? (
+        <p className="mt-6 text-sm text-neutral-600">
+          Search song titles, lyrics and stories, posts, and comments.
+        </p>
+      ) : results.length === 0 ? (
+        <p className="mt-6 text-sm text-neutral-600">
+          Nothing matches “{query}”.
+        </p>
+      ) : (
+        <>
+          <p className="mt-6 text-sm text-neutral-600">
+            {results.length} result{results.length === 1 ? "" : "s"} for “
+            {query}”
+          </p>
+          {SEARCH_GROUPS.map(({ type, title }) => {
+            const group = results.filter((r) => r.doc.type === type);
+            if (!group.length) return null;
+            return (
+              <div key={type} className="mt-6">
+                <h2 className="font-semibold">
+                  {title}{" "}
+                  <span className="text-sm font-normal text-neutral-500">
+                    ({group.length})
+                  </span>
+                </h2>
+                <ul className="mt-2 space-y-2">
+                  {group.map((r) => (
+                    <li key={r.doc.id}>
+                      <button
+                        className="w-full text-left rounded-2xl border p-3 bg-white hover:bg-neutral-50"
+                        onClick={() => navigate(r.doc.route)}
+                      >
+                        <div className="font-medium">{r.doc.title}</div>
+                        <p className="mt-1 text-sm text-neutral-700">
+                          <span className="text-xs text-neutral-500">
+                            {r.field}:{" "}
+                          </span>
+                          {r.snippet.map((part, i) =>
+                            part.hit ? (
+                              <mark key={i} className="bg-yellow-200 rounded">
+                                {part.text}
+                              </mark>
+                            ) : (
+                              <React.Fragment key={i}>
+                                {part.text}
+                              </React.Fragment>
+                            )
+                          )}
+                        </p>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </>
+      )}
+    </section>
+  );
+}
+
+// Link to an in-site path that goes through the router
+function RouteLink({
+  to,
+  navigate,
+  className,
+  children,
+}: {
+  to: string;
+  navigate: (to: string) => void;
+  className?: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <a
+      href={routeHref(to)}
+      className={className}
+      onClick={(e) => {
+        if (e.metaKey || e.ctrlKey || e.shiftKey || e.button !== 0) return;
+        e.preventDefault();
+        navigate(to);
+      }}
+    >
+      {children}
+    </a>
+  );
+}
+
+type StorySongs = {
+  bySlug: Map<string, Song>;
+  onPlay: (song: Song) => void;
+  navigate: (to: string) => void;
+};
+
+function MdInlines({ nodes, ctx }: { nodes: MdInline[]; ctx: StorySongs }) {
+  return (
+    <>
+      {nodes.map((n, i) => {
+        switch (n.kind) {
+          case "text":
+            return <React.Fragment key={i}>{n.text}</React.Fragment>;
+          case "break":
+            return <br key={i} />;
+          case "strong":
+            return (
+              <strong key={i}>
+                <MdInlines nodes={n.children} ctx={ctx} />
+              </strong>
+            );
+          case "em":
+            return (
+              <em key={i}>
+                <MdInlines nodes={n.children} ctx={ctx} />
+              </em>
+            );
+          case "code":
+            return (
+              <code
+                key={i}
+                className="px-1 rounded bg-neutral-100 text-[0.9em]"
+              >
+                {n.text}
+              </code>
+            );
+          case "link":
+            return n.href.startsWith("/") ? (
+              <RouteLink
+                key={i}
+                to={n.href}
+                navigate={ctx.navigate}
+                className="underline underline-offset-4"
+              >
+                <MdInlines nodes={n.children} ctx={ctx} />
+              </RouteLink>
+            ) : (
+              <a
+                key={i}
+                href={n.href}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="underline underline-offset-4"
+              >
+                <MdInlines nodes={n.children} ctx={ctx} />
+              </a>
+            );
+          case "song":
+            return <SongRef key={i} slug={n.slug} ctx={ctx} />;
+        }
+      })}
+    </>
+  );
+}
+
+// [[song:slug]] in running text: the title links to the song, ▶ plays it
+function SongRef({ slug, ctx }: { slug: string; ctx: StorySongs }) {
+  const song = ctx.bySlug.get(slug);
+  if (!song)
+    return (
+      <span className="text-neutral-500" title="This song isn't available">
+        {slug}
+      </span>
+    );
+  return (
+    <span className="inline-flex items-baseline gap-1">
+      <RouteLink
+        to={`/song/${song.slug}`}
+        navigate={ctx.navigate}
+        className="font-medium underline underline-offset-4"
+      >
+        {song.title}
+      </RouteLink>
+      <button
+        onClick={() => ctx.onPlay(song)}
+        className="px-1.5 rounded-md border text-xs hover:bg-neutral-100"
+        aria-label={`Play ${song.title}`}
+        title={`Play ${song.title}`}
+      >
+        ▶
+      </button>
+    </span>
+  );
+}
+
+// A song reference on a line of its own
+function SongEmbed({ song, ctx }: { song: Song; ctx: StorySongs }) {
+  return (
+    <div className="rounded-2xl border p-4 bg-white flex items-center justify-between gap-3">
+      <div>
+        <RouteLink
+          to={`/song/${song.slug}`}
+          navigate={ctx.navigate}
+          className="font-semibold hover:underline underline-offset-4"
+        >
+          {song.title}
+        </RouteLink>
+        <p className="text-xs text-neutral-600">
+          {song.genre} • {song.duration}
+        </p>
+      </div>
+      <button
+        onClick={() => ctx.onPlay(song)}
+        className="px-3 py-2 rounded-xl bg-neutral-900 text-white hover:opacity-90"
+      >
+        ▶ Play
+      </button>
+    </div>
+  );
+}
+
+function StoryMarkdown({
+  blocks,
+  ctx,
+}: {
+  blocks: MdBlock[];
+  ctx: StorySongs;
+}) {
+  return (
+    <div className="space-y-4 leading-relaxed text-neutral-800">
+      {blocks.map((b, i) => {
+        switch (b.kind) {
+          case "heading": {
+            const Tag = (["h2", "h3", "h4"] as const)[b.level - 1];
+            return (
+              <Tag
+                key={i}
+                className={classNames(
+                  "font-semibold text-neutral-900",
+                  b.level === 1 ? "text-xl" : b.level === 2 ? "text-lg" : ""
+                )}
+              >
+                <MdInlines nodes={b.children} ctx={ctx} />
+              </Tag>
+            );
+          }
+          case "paragraph": {
+            const [only] = b.children;
+            const embedded =
+              b.children.length === 1 && only.kind === "song"
+                ? ctx.bySlug.get(only.slug)
+                : undefined;
+            if (embedded)
+              return <SongEmbed key={i} song={embedded} ctx={ctx} />;
+            return (
+              <p key={i}>
+                <MdInlines nodes={b.children} ctx={ctx} />
+              </p>
+            );
+          }
+          case "list": {
+            const List = b.ordered ? "ol" : "ul";
+            return (
+              <List
+                key={i}
+                className={classNames(
+                  "pl-6 space-y-1",
+                  b.ordered ? "list-decimal" : "list-disc"
+                )}
+              >
+                {b.items.map((item, j) => (
+                  <li key={j}>
+                    <MdInlines nodes={item} ctx={ctx} />
+                  </li>
+                ))}
+              </List>
+            );
+          }
+          case "quote":
+            return (
+              <blockquote
+                key={i}
+                className="border-l-4 pl-4 italic text-neutral-600"
+              >
+                <MdInlines nodes={b.children} ctx={ctx} />
+              </blockquote>
+            );
+          case "rule":
+            return <hr key={i} />;
+        }
+      })}
+    </div>
+  );
+}
+
+function PostTags({
+  tags,
+  navigate,
+}: {
+  tags: string[];
+  navigate: (to: string) => void;
+}) {
+  return (
+    <span className="inline-flex flex-wrap gap-1">
+      {tags.map((t) => (
+        <RouteLink
+          key={t}
+          to={`/stories?tag=${encodeURIComponent(t)}`}
+          navigate={navigate}
+          className="px-2 py-0.5 rounded-full border text-xs hover:bg-neutral-100"
+        >
+          #{t}
+        </RouteLink>
+      ))}
+    </span>
+  );
+}
+
+function StoriesPage({
+  posts,
+  tag,
+  songs,
+  navigate,
+}: {
+  posts: Post[];
+  tag: string | null;
+  songs: Song[];
+  navigate: (to: string) => void;
+}) {
+  const sorted = useMemo(() => sortPosts(posts), [posts]);
+  const tagCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const p of posts)
+      for (const t of p.tags) counts.set(t, (counts.get(t) ?? 0) + 1);
+    return [...counts].sort((a, b) => a[0].localeCompare(b[0]));
+  }, [posts]);
+  const shown = tag ? sorted.filter((p) => p.tags.includes(tag)) : sorted;
+  const songTitle = (slug: string) =>
+    songs.find((s) => s.slug === slug)?.title ?? slug;
+
+  return (
+    <section className="max-w-3xl mx-auto px-4 py-10">
+      <h1 className="text-2xl font-semibold">Stories &amp; Updates</h1>
+      <div
+        className="mt-4 flex flex-wrap gap-2 text-sm"
+        role="group"
+        aria-label="Filter by tag"
+      >
+        {[["", posts.length] as const, ...tagCounts].map(([t, n]) => {
+          const active = (tag ?? "") === t;
+          return (
+            <button
+              key={t || "all"}
+              onClick={() =>
+                navigate(
+                  t ? `/stories?tag=${encodeURIComponent(t)}` : "/stories"
+                )
+              }
+              aria-pressed={active}
+              className={classNames(
+                "px-3 py-1 rounded-full border",
+                active ? "bg-neutral-900 text-white" : "hover:bg-neutral-100"
+              )}
+            >
+              {t ? `#${t}` : "All"} <span className="opacity-70">{n}</span>
+            </button>
+          );
+        })}
+      </div>
+      <div className="mt-6 space-y-4">
+        {shown.length === 0 && (
+          <p className="text-neutral-600">No stories tagged “{tag}” yet.</p>
+        )}
+        {shown.map((p) => {
+          const first = parseMarkdown(p.content).find(
+            (b) => b.kind === "paragraph"
+          );
+          return (
+            <article key={p.id} className="rounded-2xl border p-4 bg-white">
+              <h2 className="font-semibold">
+                <RouteLink
+                  to={`/stories/${p.slug}`}
+                  navigate={navigate}
+                  className="hover:underline underline-offset-4"
+                >
+                  {p.title}
+                </RouteLink>
+              </h2>
+              <p className="mt-1 flex flex-wrap items-center gap-2 text-xs text-neutral-500">
+                {p.date}
+                <PostStatusBadge status={p.status} />
+                <PostTags tags={p.tags} navigate={navigate} />
+              </p>
+              {first?.kind === "paragraph" && (
+                <p className="mt-2 text-sm text-neutral-700 line-clamp-2">
+                  {mdPlainText(first.children, songTitle)}
+                </p>
+              )}
+              <RouteLink
+                to={`/stories/${p.slug}`}
+                navigate={navigate}
+                className="mt-2 inline-block text-sm underline underline-offset-4"
+              >
+                Read more
+              </RouteLink>
+            </article>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
+
+const POST_STATUS_LABELS: Record<PostStatus, string> = {
+  draft: "Draft",
+  published: "Published",
+  private: "Private",
+};
+
+// Marks posts that only show while Private is unlocked
+function PostStatusBadge({ status }: { status: PostStatus }) {
+  if (status === "published") return null;
+  return (
+    <span className="px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 text-xs">
+      {POST_STATUS_LABELS[status]}
+    </span>
+  );
+}
+
+function StoryPage({
+  post,
+  posts,
+  songs,
+  onPlaySong,
+  onEdit,
+  navigate,
+}: {
+  post: Post;
+  posts: Post[];
+  songs: Song[];
+  onPlaySong: (song: Song, queue: Song[]) => void;
+  onEdit: () => void;
+  navigate: (to: string) => void;
+}) {
+  const blocks = useMemo(() => parseMarkdown(post.content), [post.content]);
+  const bySlug = useMemo(() => new Map(songs.map((s) => [s.slug, s])), [songs]);
+  const related = post.songIds.flatMap((id) => {
+    const s = songs.find((x) => x.id === id);
+    return s ? [s] : [];
+  });
+  // Playing a song from the post queues every song the post mentions,
+  // then the related ones
+  const mentioned = [
+    ...new Set([
+      ...songRefs(post.content).flatMap((slug) => {
+        const s = bySlug.get(slug);
+        return s ? [s] : [];
+      }),
+      ...related,
+    ]),
+  ];
+  const ctx: StorySongs = {
+    bySlug,
+    onPlay: (song) => onPlaySong(song, mentioned),
+    navigate,
+  };
+
+  const sorted = sortPosts(posts);
+  const at = sorted.findIndex((p) => p.id === post.id);
+  const newer = at > 0 ? sorted[at - 1] : null;
+  const older = at >= 0 && at < sorted.length - 1 ? sorted[at + 1] : null;
+
+  return (
+    <section className="max-w-3xl mx-auto px-4 py-10">
+      <RouteLink
+        to="/stories"
+        navigate={navigate}
+        className="text-sm underline underline-offset-4"
+      >
+        ← All stories
+      </RouteLink>
+      <article className="mt-3">
+        <div className="flex items-start justify-between gap-3">
+          <h1 className="text-2xl font-semibold">{post.title}</h1>
+          <button
+            onClick={onEdit}
+            className="px-3 py-2 rounded-xl border text-sm hover:bg-neutral-100"
+          >
+            Edit
+          </button>
+        </div>
+        <p className="mt-1 flex flex-wrap items-center gap-2 text-xs text-neutral-500">
+          {post.date}
+          <PostStatusBadge status={post.status} />
+          <PostTags tags={post.tags} navigate={navigate} />
+        </p>
+        <div className="mt-6">
+          <StoryMarkdown blocks={blocks} ctx={ctx} />
+        </div>
+        {related.length > 0 && (
+          <div className="mt-8">
+            <h2 className="font-semibold">Related songs</h2>
+            <div className="mt-3 grid gap-3">
+              {related.map((s) => (
+                <SongEmbed key={s.id} song={s} ctx={ctx} />
+              ))}
+            </div>
+          </div>
+        )}
+      </article>
+      <nav
+        className="mt-10 pt-4 border-t grid grid-cols-2 gap-4 text-sm"
+        aria-label="More stories"
+      >
         <div>
-          <h1 className="text-2xl font-semibold">Song Library</h1>
-          <p className="text-neutral-600">
-            Browse by mood, genre, or just press play.
-          </p>
-          <p className="mt-2 text-xs text-neutral-500">
-            {sortLabel} • {songs.length} song{songs.length === 1 ? "" : "s"}
+          {newer && (
+            <RouteLink
+              to={`/stories/${newer.slug}`}
+              navigate={navigate}
+              className="block hover:underline underline-offset-4"
+            >
+              <span className="text-xs text-neutral-500">← Newer</span>
+              <br />
+              {newer.title}
+            </RouteLink>
+          )}
+        </div>
+        <div className="text-right">
+          {older && (
+            <RouteLink
+              to={`/stories/${older.slug}`}
+              navigate={navigate}
+              className="block hover:underline underline-offset-4"
+            >
+              <span className="text-xs text-neutral-500">Older →</span>
+              <br />
+              {older.title}
+            </RouteLink>
+          )}
+        </div>
+      </nav>
+    </section>
+  );
+}
+
+function RequestPage() {
+  const [form, setForm] = useState({
+    name: "",
+    idea: "",
+    vibe: "",
+    dedication: "",
+  });
+  const onChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+  ) => setForm({ ...form, [e.target.name]: e.target.value });
+  return (
+    <section className="max-w-2xl mx-auto px-4 py-10">
+      <h1 className="text-2xl font-semibold">Request a Song</h1>
+      <p className="text-neutral-600">
+        Have a theme, dedication, or mood in mind? Tell me below.
+      </p>
+      <div className="mt-6 grid gap-4">
+        <input
+          name="name"
+          value={form.name}
+          onChange={onChange}
+          placeholder="Your name"
+          className="px-3 py-2 rounded-xl border"
+        />
+        <textarea
+          name="idea"
+          value={form.idea}
+          onChange={onChange}
+          placeholder="Idea / story / occasion"
+          className="px-3 py-2 rounded-xl border min-h-[100px]"
+        />
+        <input
+          name="vibe"
+          value={form.vibe}
+          onChange={onChange}
+          placeholder="Tempo / vibe (e.g., bluesy, 90 bpm)"
+          className="px-3 py-2 rounded-xl border"
+        />
+        <input
+          name="dedication"
+          value={form.dedication}
+          onChange={onChange}
+          placeholder="Dedication (optional)"
+          className="px-3 py-2 rounded-xl border"
+        />
+        <button
+          className="px-4 py-2 rounded-xl bg-neutral-900 text-white hover:opacity-90"
+          onClick={() => {
+            alert(
+              `Thanks ${
+                form.name || "friend"
+              }! Request received: ${form.idea.slice(0, 60)}...`
+            );
+            setForm({ name: "", idea: "", vibe: "", dedication: "" });
+          }}
+        >
+          Send Request
+        </button>
+      </div>
+    </section>
+  );
+}
+
+function GuestbookPage({
+  entries,
+  onSubmit,
+}: {
+  entries: GuestbookEntry[];
+  onSubmit: (entry: GuestbookEntry) => void;
+}) {
+  const [form, setForm] = useState({ name: "", message: "" });
+  return (
+    <section className="max-w-2xl mx-auto px-4 py-10">
+      <h1 className="text-2xl font-semibold">Guestbook</h1>
+      <p className="text-neutral-600">Leave a note for Brian.</p>
+      <div className="mt-6 grid gap-3">
+        <input
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          placeholder="Your name"
+          className="px-3 py-2 rounded-xl border"
+        />
+        <textarea
+          value={form.message}
+          onChange={(e) => setForm({ ...form, message: e.target.value })}
+          placeholder="Your message"
+          className="px-3 py-2 rounded-xl border min-h-[100px]"
+        />
+        <button
+          className="px-4 py-2 rounded-xl bg-neutral-900 text-white hover:opacity-90"
+          onClick={() => {
+            if (!form.message.trim()) return;
+            onSubmit({ ...form, createdAt: new Date().toISOString() });
+            setForm({ name: "", message: "" });
+          }}
+        >
+          Sign Guestbook
+        </button>
+      </div>
+      <div className="mt-6 space-y-3">
+        {entries.length === 0 && (
+          <p className="text-sm text-neutral-600">No messages yet—say hello!</p>
+        )}
+        {entries.map((e, idx) => (
+          <div key={idx} className="rounded-xl border p-3 bg-white">
+            <div className="text-sm">
+              <span className="font-medium">{e.name || "Anonymous"}</span>{" "}
+              <span className="text-neutral-500">
+                · {new Date(e.createdAt).toLocaleString()}
+              </span>
+            </div>
+            <p className="text-sm mt-1">{e.message}</p>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
+
+function AboutPage() {
+  return (
+    <section className="max-w-3xl mx-auto px-4 py-10">
+      <h1 className="text-2xl font-semibold">About the Artist</h1>
+      <pre className="mt-2 whitespace-pre-wrap text-neutral-800 leading-relaxed">
+        {`I write songs that live somewhere between blues rock, southern fried swagger, and quiet twilight ballads.
+        
+This site is a home for works-in-progress and finished tracks I share with family and friends.`}
+      </pre>
+      <div className="mt-6 rounded-2xl border p-4 bg-white">
+        <h2 className="font-semibold">Influences</h2>
+        <p className="text-sm mt-2">
+          Lynyrd Skynyrd, Chris Stapleton, The Black Keys, John Mayer (trio
+          era), and a steady diet of old-school blues.
+        </p>
+      </div>
+    </section>
+  );
+}
+
+function SubscribePage() {
+  const [email, setEmail] = useState("");
+  return (
+    <section className="max-w-sm mx-auto px-4 py-16 text-center">
+      <h1 className="text-2xl font-semibold">Subscribe for Updates</h1>
+      <p className="mt-2 text-neutral-600">
+        Get an email when a new song drops.
+      </p>
+      <div className="mt-6 grid gap-3">
+        <input
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="you@example.com"
+          className="px-3 py-2 rounded-xl border"
+        />
+        <button
+          className="px-4 py-2 rounded-xl bg-neutral-900 text-white hover:opacity-90"
+          onClick={() => {
+            alert("Thanks! Check your inbox to confirm.");
+            setEmail("");
+          }}
+        >
+          Subscribe
+        </button>
+      </div>
+    </section>
+  );
+}
+
+function PrivatePage({
+  unlocked,
+  expiresAt,
+  onUnlock,
+  onLock,
+  songs,
+  onOpenSong,
+  onPlaySong,
+}: {
+  unlocked: boolean;
+  expiresAt: number | null;
+  onUnlock: () => void;
+  onLock: () => void;
+  songs: Song[];
+  onOpenSong: (song: Song) => void;
+  onPlaySong: (song: Song) => void;
+}) {
+  const [pw, setPw] = useState("");
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState("");
+  const [lockout, setLockout] = useLocalStorage<PrivateLockout>(
+    "msw:privLock",
+    { failures: 0, lockedUntil: null },
+    PrivateLockoutSchema
+  );
+  const [now, setNow] = useState(() => Date.now());
+
+  const lockedOut = lockout.lockedUntil != null && lockout.lockedUntil > now;
+
+  // Tick once a second while locked out so the countdown updates
+  useEffect(() => {
+    if (!lockedOut) return;
+    const t = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(t);
+  }, [lockedOut]);
+
+  const tryUnlock = async () => {
+    if (checking || lockedOut || !pw) return;
+    if (!privateConfigured) {
+      setError("No password has been set up for this site.");
+      return;
+    }
+    setChecking(true);
+    setError("");
+    try {
+      if (await verifyPassphrase(pw)) {
+        setLockout({ failures: 0, lockedUntil: null });
+        setPw("");
+        onUnlock();
+        return;
+      }
+      const failures = (lockout.lockedUntil != null ? 0 : lockout.failures) + 1;
+      if (failures >= PRIVATE_CONFIG.maxAttempts) {
+        setLockout({
+          failures: 0,
+          lockedUntil: Date.now() + PRIVATE_CONFIG.lockoutMinutes * 60000,
+        });
+        setNow(Date.now());
+        setError("Too many attempts.");
+      } else {
+        setLockout({ failures, lockedUntil: null });
+        const left = PRIVATE_CONFIG.maxAttempts - failures;
+        setError(
+          `Wrong password. ${left} attempt${left === 1 ? "" : "s"} left.`
+        );
+      }
+    } catch {
+      setError(
+        "Could not check the password. Unlocking needs a secure (https) page."
+      );
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <section className="max-w-3xl mx-auto px-4 py-10">
+      <h1 className="text-2xl font-semibold">Private Area</h1>
+      {!unlocked ? (
+        <div className="mt-4 rounded-2xl border p-4 bg-white">
+          <p className="text-sm text-neutral-700">
+            Enter the family password to access early releases and drafts.
           </p>
-        </div>
-        <div className="flex items-center gap-2 text-sm">
-          {[
-            { key: "newest", label: "Newest" },
-            { key: "liked", label: "Most Liked" },
-            { key: "az", label: "A–Z" },
-          ].map((b) => (
+          <form
+            className="mt-3 flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              tryUnlock();
+            }}
+          >
+            <input
+              value={pw}
+              onChange={(e) => setPw(e.target.value)}
+              type="password"
+              placeholder="Password"
+              autoComplete="current-password"
+              disabled={lockedOut}
+              className="px-3 py-2 rounded-xl border"
+            />
             <button
-              key={b.key}
-              onClick={() => setSortMode(b.key)}
-              aria-pressed={sortMode === b.key}
-              className={classNames(
-                "px-3 py-2 rounded-xl border",
-                sortMode === b.key
-                  ? "bg-neutral-900 text-white"
-                  : "hover:bg-neutral-100"
-              )}
+              type="submit"
+              className="px-4 py-2 rounded-xl bg-neutral-900 text-white hover:opacity-90 disabled:opacity-50"
+              disabled={checking || lockedOut || !pw}
             >
-              {b.label}
+              {checking ? "Checking…" : "Unlock"}
             </button>
-          ))}
-          <button
-            className="ml-2 px-3 py-2 rounded-xl bg-neutral-900 text-white hover:opacity-90"
-            onClick={onPlayAll}
-            disabled={songs.length === 0}
-            title="Queue all visible songs (respects search/sort)"
-          >
-            ▶ Play All
-          </button>
+          </form>
+          {lockedOut ? (
+            <p className="text-xs text-red-600 mt-2">
+              {error && `${error} `}Try again in{" "}
+              {formatTime(((lockout.lockedUntil ?? now) - now) / 1000)}.
+            </p>
+          ) : (
+            error && <p className="text-xs text-red-600 mt-2">{error}</p>
+          )}
         </div>
-      </div>
-
-      <div className="mt-6 grid grid-cols-1 md:grid-cols-3 gap-4">
-        {songs.map((s: any) => (
-          <div
-            key={s.id}
-            className="group rounded-2xl border p-4 hover:shadow-lg transition-shadow bg-white"
-          >
-            <div className="flex items-start justify-between gap-3">
-              <div>
-                <h3 className="font-semibold text-lg leading-tight">
-                  {s.title}
-                </h3>
+      ) : (
+        <>
+          <div className="mt-4 flex items-center justify-between gap-3 rounded-2xl border p-3 bg-white text-sm">
+            <span className="text-neutral-700">
+              Unlocked
+              {expiresAt != null &&
+                ` until ${new Date(expiresAt).toLocaleTimeString([], {
+                  hour: "numeric",
+                  minute: "2-digit",
+                })}`}
+              .
+            </span>
+            <button
+              className="px-3 py-2 rounded-xl border hover:bg-neutral-100"
+              onClick={onLock}
+            >
+              🔒 Lock now
+            </button>
+          </div>
+          <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+            {songs.map((s) => (
+              <div key={s.id} className="rounded-2xl border p-4 bg-white">
+                <h3 className="font-semibold">{s.title}</h3>
                 <p className="text-xs text-neutral-600">
                   {s.genre} • {s.duration}
                 </p>
+                <p className="mt-2 text-sm text-neutral-700 line-clamp-2">
+                  {s.story.replaceAll("\\n", " ")}
+                </p>
+                <div className="mt-4 flex items-center justify-between">
+                  <button
+                    onClick={() => onOpenSong(s)}
+                    className="text-sm underline underline-offset-4"
+                  >
+                    View lyrics
+                  </button>
+                  <button
+                    onClick={() => onPlaySong(s)}
+                    className="px-3 py-2 rounded-xl bg-neutral-900 text-white hover:opacity-90"
+                  >
+                    Play
+                  </button>
+                </div>
               </div>
-              <button
-                onClick={() => {
-                  setLiked((prev: any) => ({ ...prev, [s.id]: !prev[s.id] }));
-                }}
-                className={classNames(
-                  "px-2 py-1 text-xs rounded-lg border",
-                  liked[s.id]
-                    ? "bg-neutral-900 text-white"
-                    : "hover:bg-neutral-100"
-                )}
-              >
-                {liked[s.id] ? "♥ Liked" : "♡ Like"}
-              </button>
-            </div>
-            <p className="mt-2 text-sm text-neutral-700 line-clamp-2">
-              {s.story.replaceAll("\\n", " ")}
-            </p>
-            <div className="mt-4 flex items-center justify-between">
-              <button
-                onClick={() => onOpenSong(s)}
-                className="text-sm underline underline-offset-4"
-              >
-                View lyrics
-              </button>
-              <button
-                onClick={() => onPlaySong(s)}
-                className="px-3 py-2 rounded-xl bg-neutral-900 text-white hover:opacity-90"
-              >
-                Play
-              </button>
-            </div>
+            ))}
           </div>
-        ))}
-      </div>
+        </>
+      )}
     </section>
   );
 }
 
-function SongDetailPage({
-  song,
-  onPlaySong,
-  onBack,
-  comments,
-  setComments,
+function DataPage({
+  songs,
   liked,
+  comments,
+  guestbook,
+  sortMode,
+  playlists,
+  posts,
+  playlistSources,
+  setSongs,
   setLiked,
-  onUpdateSong,
-}: any) {
-  if (!song)
-    return (
-      <section className="max-w-3xl mx-auto px-4 py-10">
-        <p className="text-neutral-600">Song not found.</p>
-        <button onClick={onBack} className="mt-4 px-4 py-2 rounded-xl border">
-          Back to Music
-        </button>
-      </section>
+  setComments,
+  setGuestbook,
+  setPlaylists,
+  setPosts,
+  onLockPrivate,
+  setSortMode,
+}: {
+  songs: Song[];
+  liked: Liked;
+  comments: CommentThreads;
+  guestbook: GuestbookEntry[];
+  sortMode: SortMode;
+  playlists: Playlist[];
+  posts: Post[];
+  playlistSources: PlaylistSource[];
+  setSongs: (songs: Song[]) => void;
+  setLiked: (liked: Liked) => void;
+  setComments: (comments: CommentThreads) => void;
+  setGuestbook: (guestbook: GuestbookEntry[]) => void;
+  setPlaylists: (playlists: Playlist[]) => void;
+  setPosts: (posts: Post[]) => void;
+  onLockPrivate: () => void;
+  setSortMode: (mode: SortMode) => void;
+}) {
+  const [status, setStatus] = useState("");
+  const [pendingImport, setPendingImport] = useState<{
+    fileName: string;
+    backup: Backup;
+    diff: BackupDiff;
+  } | null>(null);
+  const [storedFiles, setStoredFiles] = useState<StoredAudioInfo[] | null>(
+    null
+  );
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+
+  const refreshStorage = async () => {
+    try {
+      setStoredFiles(await listAudio());
+    } catch {
+      setStoredFiles([]);
+    }
+    try {
+      setEstimate((await navigator.storage?.estimate?.()) ?? null);
+    } catch {
+      setEstimate(null);
+    }
+  };
+
+  useEffect(() => {
+    refreshStorage();
+  }, []);
+
+  const removeStoredFile = async (songId: number) => {
+    try {
+      await deleteAudio(songId);
+      setSongs(
+        songs.map((s) =>
+          storedAudioId(s.audioUrl) === songId ? { ...s, audioUrl: "" } : s
+        )
+      );
+      setStatus("Deleted stored audio file.");
+    } catch {
+      setStatus("Failed to delete stored audio file.");
+    }
+    refreshStorage();
+  };
+
+  const [exportSelection, setExportSelection] = useState<
+    Record<keyof SiteData, boolean>
+  >({
+    songs: true,
+    liked: true,
+    comments: true,
+    guestbook: true,
+    sortMode: true,
+    playlists: true,
+    posts: true,
+  });
+  const [exportFormat, setExportFormat] = useState<"json" | "csv">("json");
+  const [playlistId, setPlaylistId] = useState(playlistSources[0]?.id ?? "");
+  const [playlistFormat, setPlaylistFormat] = useState<"m3u" | "xspf">("m3u");
+
+  const csvExports: Partial<Record<keyof SiteData, () => string>> = {
+    songs: () => songsToCsv(songs),
+    comments: () => commentsToCsv(comments),
+    guestbook: () => guestbookToCsv(guestbook),
+    posts: () => postsToCsv(posts, songs),
+  };
+
+  const doExport = () => {
+    const chosen = (Object.keys(exportSelection) as (keyof SiteData)[]).filter(
+      (k) => exportSelection[k] && (exportFormat === "json" || csvExports[k])
     );
+    if (!chosen.length) {
+      setStatus("Pick at least one collection to export.");
+      return;
+    }
+    const stamp = Date.now();
+    try {
+      if (exportFormat === "json") {
+        const all: SiteData = {
+          songs,
+          liked,
+          comments,
+          guestbook,
+          sortMode,
+          playlists,
+          posts,
+        };
+        const data: Backup = {
+          version: DATA_VERSION,
+          exportedAt: new Date().toISOString(),
+        };
+        for (const k of chosen) Object.assign(data, { [k]: all[k] });
+        downloadFile(
+          `brian-songs-backup-${stamp}.json`,
+          JSON.stringify(data, null, 2),
+          "application/json"
+        );
+      } else {
+        // Leading BOM so spreadsheet apps read the file as UTF-8
+        for (const k of chosen)
+          downloadFile(
+            `brian-songs-${k}-${stamp}.csv`,
+            "\ufeff" + csvExports[k]!(),
+            "text/csv;charset=utf-8"
+          );
+      }
+      setStatus(
+        `Exported ${chosen
+          .map((k) => DIFF_LABELS[k].toLowerCase())
+          .join(", ")} as ${exportFormat.toUpperCase()}.`
+      );
+    } catch {
+      setStatus("Export failed.");
+    }
+  };
 
-  const thread = comments[song.slug] || [];
-  const shareUrl = `${window.location.origin}${window.location.pathname}#/song/${song.slug}`;
+  const exportPlaylist = () => {
+    const playlist = playlistSources.find((p) => p.id === playlistId);
+    if (!playlist) return;
+    const playable = playlistEntries(playlist.songs).length;
+    if (!playable) {
+      setStatus(
+        `“${playlist.title}” has no songs with a shareable audio URL to export.`
+      );
+      return;
+    }
+    const name = slugify(playlist.title) || "playlist";
+    try {
+      if (playlistFormat === "m3u")
+        downloadFile(
+          `${name}.m3u`,
+          toM3u(playlist.title, playlist.songs),
+          "audio/x-mpegurl"
+        );
+      else
+        downloadFile(
+          `${name}.xspf`,
+          toXspf(playlist.title, playlist.songs),
+          "application/xspf+xml"
+        );
+      const skipped = playlist.songs.length - playable;
+      setStatus(
+        `Exported ${playable} track${playable === 1 ? "" : "s"} from “${
+          playlist.title
+        }”${
+          skipped
+            ? ` (${skipped} skipped: uploaded files and missing audio can't be linked)`
+            : ""
+        }.`
+      );
+    } catch {
+      setStatus("Export failed.");
+    }
+  };
 
-  return (
-    <section className="max-w-3xl mx-auto px-4 py-10">
-      <button onClick={onBack} className="text-sm underline underline-offset-4">
-        ← Back to Music
-      </button>
-      <div className="mt-3 flex items-start justify-between gap-3">
-        <div>
-          <h1 className="text-2xl font-semibold">{song.title}</h1>
-          <p className="text-neutral-600 text-sm">
-            {song.genre} • {song.duration} • Released {song.releaseDate}
-          </p>
-        </div>
-        <div className="flex items-center gap-2">
-          <button
-            onClick={() =>
-              setLiked((prev: any) => ({ ...prev, [song.id]: !prev[song.id] }))
-            }
-            className={classNames(
-              "px-3 py-2 rounded-xl border text-sm",
-              liked[song.id]
-                ? "bg-neutral-900 text-white"
-                : "hover:bg-neutral-100"
-            )}
-          >
-            {liked[song.id] ? "♥ Liked" : "♡ Like"}
-          </button>
-          <button
-            onClick={() => onPlaySong(song)}
-            className="px-3 py-2 rounded-xl bg-neutral-900 text-white text-sm hover:opacity-90"
-          >
-            ▶ Play
-          </button>
-        </div>
-      </div>
+  const onImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const text = await file.text();
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(text);
+      } catch {
+        setStatus("Import failed: invalid JSON.");
+        return;
+      }
 
-      <div className="mt-6 grid md:grid-cols-2 gap-6">
-        <div className="rounded-2xl border p-4 bg-white">
-          <h2 className="font-semibold">Lyrics</h2>
-          <pre className="mt-2 whitespace-pre-wrap text-sm leading-relaxed text-neutral-800">
-            {song.lyrics}
-          </pre>
-        </div>
-        <div className="rounded-2xl border p-4 bg-white">
-          <h2 className="font-semibold">Song Story</h2>
-          <pre className="mt-2 whitespace-pre-wrap text-sm leading-relaxed text-neutral-800">
-            {song.story}
-          </pre>
+      if (!isPlainObject(parsed)) {
+        setStatus("Import failed: not a backup file.");
+        return;
+      }
+      // Upgrade older backups first; newer ones are refused untouched
+      const { version = 1, ...collections } = parsed;
+      const migrated = migrateData(
+        collections,
+        typeof version === "number" ? version : NaN
+      );
+      if (!migrated.ok) {
+        setStatus(`Import failed: ${migrated.error}`);
+        return;
+      }
+
+      const result = validate(BackupSchema, migrated.data, "backup");
+      if (!result.ok) {
+        setStatus(
+          `Import failed: ${result.errors.slice(0, 3).join("; ")}${
+            result.errors.length > 3
+              ? ` (+${result.errors.length - 3} more)`
+              : ""
+          }`
+        );
+        return;
+      }
+
+      // Nothing changes until the user picks replace or merge in the preview
+      const local = {
+        songs,
+        liked,
+        comments,
+        guestbook,
+        sortMode,
+        playlists,
+        posts,
+      };
+      setPendingImport({
+        fileName: file.name,
+        backup: result.value,
+        diff: diffBackup(local, result.value),
+      });
+      setStatus("");
+    } catch {
+      setStatus("Import failed: could not read file.");
+    } finally {
+      e.target.value = "";
+    }
+  };
+
+  const applyImport = (strategy: MergeStrategy) => {
+    if (!pendingImport) return;
+    const local = {
+      songs,
+      liked,
+      comments,
+      guestbook,
+      sortMode,
+      playlists,
+      posts,
+    };
+    const next = mergeBackup(local, pendingImport.backup, strategy);
+    if (next.songs !== songs) setSongs(next.songs);
+    if (next.liked !== liked) setLiked(next.liked);
+    if (next.comments !== comments) setComments(next.comments);
+    if (next.guestbook !== guestbook) setGuestbook(next.guestbook);
+    if (next.sortMode !== sortMode) setSortMode(next.sortMode);
+    if (next.playlists !== playlists) setPlaylists(next.playlists);
+    if (next.posts !== posts) setPosts(next.posts);
+    setPendingImport(null);
+    setStatus(
+      strategy === "replace"
+        ? "Import complete: local data replaced."
+        : "Import complete: backup merged into local data."
+    );
+  };
+
+  const clearAll = () => {
+    if (
+      !confirm(
+        "This will clear all local data (likes, comments, guestbook, songs, playlists, stories, uploaded audio). Continue?"
+      )
+    )
+      return;
+    try {
+      const keys = [
+        "msw:songs",
+        "msw:liked",
+        "msw:guestbook",
+        "msw:comments",
+        "msw:priv",
+        "msw:sort",
+        "msw:playlists",
+        "msw:posts",
+        "msw:volume",
+        "msw:muted",
+        "msw:rate",
+        "msw:crossfade",
+        "msw:normalize",
+        "msw:eq",
+        "msw:shuffle",
+        "msw:repeat",
+        "msw:queue",
+        "msw:queueIndex",
+        "msw:baseQueue",
+        "msw:position",
+      ];
+      keys.forEach((k) => localStorage.removeItem(k));
+      clearAudio()
+        .catch(() => undefined)
+        .then(refreshStorage);
+      setSongs(SEED_SONGS);
+      setLiked({});
+      setComments({});
+      setGuestbook([]);
+      setPlaylists([]);
+      setPosts(SEED_POSTS);
+      onLockPrivate();
+      setSortMode("newest");
+      setStatus("Local data cleared.");
+    } catch {
+      setStatus("Failed to clear local data.");
+    }
+  };
 
-          {/* Audio attach (URL or file upload) */}
-          <div className="mt-6">
-            <h3 className="font-medium text-sm">Attach Audio</h3>
-            <div className="mt-2 grid gap-2 text-sm">
-              <input
-                type="url"
-                placeholder="Paste direct MP3/WAV URL (https://...)"
-                defaultValue={song.audioUrl}
-                className="px-3 py-2 rounded-xl border w-full"
-                onBlur={(e) =>
-                  onUpdateSong(song.id, {
-                    audioUrl: (e.target as HTMLInputElement).value.trim(),
-                  })
-                }
-              />
-              <label className="text-xs text-neutral-600">
-                or upload a file
-              </label>
-              <input
-                type="file"
-                accept="audio/*"
-                className="px-3 py-2 rounded-xl border w-full"
-                onChange={(e) => {
-                  const file = (e.target as HTMLInputElement).files?.[0];
-                  if (!file) return;
-                  const url = URL.createObjectURL(file);
-                  onUpdateSong(song.id, { audioUrl: url });
-                  alert("Audio attached. Click ▶ Play to listen.");
-                }}
-              />
-            </div>
+  return (
+    <section className="max-w-3xl mx-auto px-4 py-10">
+      <h1 className="text-2xl font-semibold">Data (Export / Import)</h1>
+      <p className="text-neutral-600">
+        Back up or restore your site data without a server.
+      </p>
 
-            <div className="mt-3 text-xs text-neutral-600">
-              <p>
-                Tip: In CodeSandbox, a pasted HTTPS URL is simplest. Uploaded
-                files play via a temporary local URL.
-              </p>
-            </div>
+      <div className="mt-6 grid gap-4">
+        <div className="rounded-2xl border p-4 bg-white">
+          <h2 className="font-semibold">Export</h2>
+          <p className="text-sm text-neutral-600">
+            Download your current data as a JSON backup, or as CSV spreadsheets
+            (one file per collection).
+          </p>
+          <div className="mt-3 flex flex-wrap gap-x-4 gap-y-2 text-sm">
+            {(Object.keys(DIFF_LABELS) as (keyof SiteData)[]).map((k) => {
+              const unavailable = exportFormat === "csv" && !csvExports[k];
+              return (
+                <label
+                  key={k}
+                  className={classNames(
+                    "flex items-center gap-1",
+                    unavailable && "text-neutral-400"
+                  )}
+                >
+                  <input
+                    type="checkbox"
+                    checked={exportSelection[k] && !unavailable}
+                    disabled={unavailable}
+                    onChange={(e) =>
+                      setExportSelection({
+                        ...exportSelection,
+                        [k]: e.target.checked,
+                      })
+                    }
+                  />
+                  {DIFF_LABELS[k]}
+                  {unavailable && " (JSON only)"}
+                </label>
+              );
+            })}
+          </div>
+          <div className="mt-3 flex items-center gap-2 text-sm">
+            <select
+              value={exportFormat}
+              onChange={(e) =>
+                setExportFormat(e.target.value as "json" | "csv")
+              }
+              className="px-3 py-2 rounded-xl border bg-white"
+              aria-label="Export format"
+            >
+              <option value="json">JSON backup</option>
+              <option value="csv">CSV</option>
+            </select>
+            <button
+              className="px-4 py-2 rounded-xl bg-neutral-900 text-white hover:opacity-90"
+              onClick={doExport}
+            >
+              {exportFormat === "json" ? "Download Backup" : "Download CSV"}
+            </button>
           </div>
+        </div>
 
-          <div className="mt-6">
-            <h3 className="font-medium text-sm">Share</h3>
+        <div className="rounded-2xl border p-4 bg-white">
+          <h2 className="font-semibold">Export a Playlist</h2>
+          <p className="text-sm text-neutral-600">
+            Save the current queue or a playlist as M3U or XSPF for other music
+            players. Only songs with a linked audio URL are included.
+          </p>
+          <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+            <select
+              value={playlistId}
+              onChange={(e) => setPlaylistId(e.target.value)}
+              className="px-3 py-2 rounded-xl border bg-white"
+              aria-label="Playlist"
+            >
+              {playlistSources.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.title} ({p.songs.length})
+                </option>
+              ))}
+            </select>
+            <select
+              value={playlistFormat}
+              onChange={(e) =>
+                setPlaylistFormat(e.target.value as "m3u" | "xspf")
+              }
+              className="px-3 py-2 rounded-xl border bg-white"
+              aria-label="Playlist format"
+            >
+              <option value="m3u">M3U</option>
+              <option value="xspf">XSPF</option>
+            </select>
             <button
-              className="mt-2 px-3 py-2 rounded-xl border text-sm hover:bg-neutral-100"
-              onClick={async () => {
-                try {
-                  await navigator.clipboard.writeText(shareUrl);
-                  alert("Song link copied to clipboard.");
-                } catch {
-                  alert("Link copied (simulated).");
-                }
-              }}
+              className="px-4 py-2 rounded-xl border hover:bg-neutral-100"
+              onClick={exportPlaylist}
             >
-              Copy link
+              Download Playlist
             </button>
           </div>
         </div>
-      </div>
 
-      <div className="mt-6 rounded-2xl border p-4 bg-white">
-        <h2 className="font-semibold">Comments</h2>
-        <CommentForm
-          onSubmit={(entry: any) => {
-            const item = { ...entry, createdAt: new Date().toISOString() };
-            setComments((prev: any) => ({
-              ...prev,
-              [song.slug]: [item, ...thread],
-            }));
-          }}
-        />
-        <div className="mt-4 space-y-3">
-          {thread.length === 0 && (
-            <p className="text-sm text-neutral-600">
-              No comments yet—be the first to share a thought.
-            </p>
+        <div className="rounded-2xl border p-4 bg-white">
+          <h2 className="font-semibold">Import</h2>
+          <p className="text-sm text-neutral-600">
+            Upload a previously exported JSON file to restore data.
+          </p>
+          <input
+            className="mt-3"
+            type="file"
+            accept="application/json"
+            onChange={onImportFile}
+          />
+          {pendingImport && (
+            <ImportPreview
+              fileName={pendingImport.fileName}
+              diff={pendingImport.diff}
+              onApply={applyImport}
+              onCancel={() => {
+                setPendingImport(null);
+                setStatus("Import cancelled.");
+              }}
+            />
           )}
-          {thread.map((c: any, idx: number) => (
-            <div key={idx} className="rounded-xl border p-3">
-              <div className="text-sm">
-                <span className="font-medium">{c.name}</span>{" "}
-                <span className="text-neutral-500">
-                  · {new Date(c.createdAt).toLocaleString()}
-                </span>
-              </div>
-              <p className="text-sm mt-1">{c.message}</p>
-            </div>
-          ))}
         </div>
-      </div>
-    </section>
-  );
-}
 
-function PlaylistsPage({ songs, onPlaySong, navigate }: any) {
-  const moodBuckets = [
-    { title: "Uplifting", mood: "uplifting" },
-    { title: "Reflective", mood: "reflective" },
-    { title: "Southern Rock", mood: "southern" },
-  ];
-  return (
-    <section className="max-w-6xl mx-auto px-4 py-10">
-      <h1 className="text-2xl font-semibold">Playlists by Mood/Theme</h1>
-      <p className="text-neutral-600">Handpicked sets to match the moment.</p>
-      <div className="mt-6 grid grid-cols-1 md:grid-cols-3 gap-4">
-        {moodBuckets.map((b) => (
-          <div key={b.title} className="rounded-2xl border p-4 bg-white">
-            <h3 className="font-semibold">{b.title}</h3>
-            <ul className="mt-2 text-sm list-disc list-inside text-neutral-700">
-              {songs
-                .filter((s: any) =>
-                  b.mood === "southern"
-                    ? s.genre.toLowerCase().includes("southern")
-                    : s.moods.includes(b.mood)
-                )
-                .filter((s: any) => s.visibility === "public")
-                .slice(0, 5)
-                .map((s: any) => (
-                  <li key={s.id} className="flex items-center justify-between">
-                    <button
-                      className="underline underline-offset-4"
-                      onClick={() => navigate(`/song/${s.slug}`)}
-                    >
-                      {s.title}
-                    </button>
+        <div className="rounded-2xl border p-4 bg-white">
+          <h2 className="font-semibold">Stored Audio</h2>
+          <p className="text-sm text-neutral-600">
+            Uploaded files are kept in this browser and are not part of the JSON
+            backup.
+            {estimate?.usage != null && (
+              <>
+                {" "}
+                Using {formatBytes(estimate.usage)}
+                {estimate.quota ? ` of ${formatBytes(estimate.quota)}` : ""}.
+              </>
+            )}
+          </p>
+          {storedFiles === null ? (
+            <p className="mt-3 text-sm text-neutral-600">Loading…</p>
+          ) : storedFiles.length === 0 ? (
+            <p className="mt-3 text-sm text-neutral-600">No uploaded files.</p>
+          ) : (
+            <ul className="mt-3 divide-y text-sm">
+              {storedFiles.map((f) => {
+                const owner = songs.find((s) => s.id === f.songId);
+                return (
+                  <li
+                    key={f.songId}
+                    className="py-2 flex items-center justify-between gap-3"
+                  >
+                    <div className="min-w-0">
+                      <div className="truncate">{f.name}</div>
+                      <div className="text-xs text-neutral-500">
+                        {owner ? owner.title : `Song #${f.songId} (deleted)`} ·{" "}
+                        {formatBytes(f.size)} ·{" "}
+                        {new Date(f.storedAt).toLocaleDateString()}
+                      </div>
+                    </div>
                     <button
                       className="text-xs px-2 py-1 rounded-lg border hover:bg-neutral-100"
-                      onClick={() => onPlaySong(s)}
+                      onClick={() => removeStoredFile(f.songId)}
                     >
-                      ▶ Play
+                      Delete
                     </button>
                   </li>
-                ))}
+                );
+              })}
             </ul>
-          </div>
-        ))}
-      </div>
-    </section>
-  );
-}
-
-function StoriesPage({ posts }: any) {
-  return (
-    <section className="max-w-3xl mx-auto px-4 py-10">
-      <h1 className="text-2xl font-semibold">Stories &amp; Updates</h1>
-      <div className="mt-6 space-y-4">
-        {posts.map((p: any) => (
-          <article key={p.id} className="rounded-2xl border p-4 bg-white">
-            <h2 className="font-semibold">{p.title}</h2>
-            <p className="text-xs text-neutral-500">
-              {p.date} · {p.tags.join(", ")}
-            </p>
-            <pre className="mt-2 whitespace-pre-wrap text-sm leading-relaxed text-neutral-800">
-              {p.content}
-            </pre>
-          </article>
-        ))}
-      </div>
-    </section>
-  );
-}
-
-function RequestPage() {
-  const [form, setForm] = useState({
-    name: "",
-    idea: "",
-    vibe: "",
-    dedication: "",
-  });
-  const onChange = (
-    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
-  ) => setForm({ ...form, [e.target.name]: e.target.value });
-  return (
-    <section className="max-w-2xl mx-auto px-4 py-10">
-      <h1 className="text-2xl font-semibold">Request a Song</h1>
-      <p className="text-neutral-600">
-        Have a theme, dedication, or mood in mind? Tell me below.
-      </p>
-      <div className="mt-6 grid gap-4">
-        <input
-          name="name"
-          value={form.name}
-          onChange={onChange}
-          placeholder="Your name"
-          className="px-3 py-2 rounded-xl border"
-        />
-        <textarea
-          name="idea"
-          value={form.idea}
-          onChange={onChange}
-          placeholder="Idea / story / occasion"
-          className="px-3 py-2 rounded-xl border min-h-[100px]"
-        />
-        <input
-          name="vibe"
-          value={form.vibe}
-          onChange={onChange}
-          placeholder="Tempo / vibe (e.g., bluesy, 90 bpm)"
-          className="px-3 py-2 rounded-xl border"
-        />
-        <input
-          name="dedication"
-          value={form.dedication}
-          onChange={onChange}
-          placeholder="Dedication (optional)"
-          className="px-3 py-2 rounded-xl border"
-        />
-        <button
-          className="px-4 py-2 rounded-xl bg-neutral-900 text-white hover:opacity-90"
-          onClick={() => {
-            alert(
-              `Thanks ${
-                form.name || "friend"
-              }! Request received: ${form.idea.slice(0, 60)}...`
-            );
-            setForm({ name: "", idea: "", vibe: "", dedication: "" });
-          }}
-        >
-          Send Request
-        </button>
-      </div>
-    </section>
-  );
-}
+          )}
+        </div>
 
-function GuestbookPage({ entries, onSubmit }: any) {
-  const [form, setForm] = useState({ name: "", message: "" });
-  return (
-    <section className="max-w-2xl mx-auto px-4 py-10">
-      <h1 className="text-2xl font-semibold">Guestbook</h1>
-      <p className="text-neutral-600">Leave a note for Brian.</p>
-      <div className="mt-6 grid gap-3">
-        <input
-          value={form.name}
-          onChange={(e) => setForm({ ...form, name: e.target.value })}
-          placeholder="Your name"
-          className="px-3 py-2 rounded-xl border"
-        />
-        <textarea
-          value={form.message}
-          onChange={(e) => setForm({ ...form, message: e.target.value })}
-          placeholder="Your message"
-          className="px-3 py-2 rounded-xl border min-h-[100px]"
-        />
-        <button
-          className="px-4 py-2 rounded-xl bg-neutral-900 text-white hover:opacity-90"
-          onClick={() => {
-            if (!form.message.trim()) return;
-            onSubmit({ ...form, createdAt: new Date().toISOString() });
-            setForm({ name: "", message: "" });
-          }}
-        >
-          Sign Guestbook
-        </button>
-      </div>
-      <div className="mt-6 space-y-3">
-        {entries.length === 0 && (
-          <p className="text-sm text-neutral-600">No messages yet—say hello!</p>
-        )}
-        {entries.map((e: any, idx: number) => (
-          <div key={idx} className="rounded-xl border p-3 bg-white">
-            <div className="text-sm">
-              <span className="font-medium">{e.name || "Anonymous"}</span>{" "}
-              <span className="text-neutral-500">
-                · {new Date(e.createdAt).toLocaleString()}
-              </span>
-            </div>
-            <p className="text-sm mt-1">{e.message}</p>
-          </div>
-        ))}
+        <div className="rounded-2xl border p-4 bg-white">
+          <h2 className="font-semibold">Danger Zone</h2>
+          <p className="text-sm text-neutral-600">
+            Clear all local data and reset to defaults.
+          </p>
+          <button
+            className="mt-3 px-4 py-2 rounded-xl border hover:bg-neutral-100"
+            onClick={clearAll}
+          >
+            Clear Local Data
+          </button>
+        </div>
+
+        {status && <p className="text-sm text-neutral-700">{status}</p>}
       </div>
     </section>
   );
 }
 
-function AboutPage() {
-  return (
-    <section className="max-w-3xl mx-auto px-4 py-10">
-      <h1 className="text-2xl font-semibold">About the Artist</h1>
-      <pre className="mt-2 whitespace-pre-wrap text-neutral-800 leading-relaxed">
-        {`I write songs that live somewhere between blues rock, southern fried swagger, and quiet twilight ballads.
-        
-This site is a home for works-in-progress and finished tracks I share with family and friends.`}
-      </pre>
-      <div className="mt-6 rounded-2xl border p-4 bg-white">
-        <h2 className="font-semibold">Influences</h2>
-        <p className="text-sm mt-2">
-          Lynyrd Skynyrd, Chris Stapleton, The Black Keys, John Mayer (trio
-          era), and a steady diet of old-school blues.
-        </p>
-      </div>
-    </section>
+/* -------------------------
+ * Song authoring (#/admin/songs, #/admin/songs/<slug>)
+ * ------------------------- */
+type SongDraft = Omit<Song, "id" | "likes"> & { id: number | null };
+
+const EMPTY_DRAFT: SongDraft = {
+  id: null,
+  title: "",
+  slug: "",
+  duration: "",
+  releaseDate: new Date().toISOString().slice(0, 10),
+  genre: "",
+  moods: [],
+  story: "",
+  lyrics: "",
+  audioUrl: "",
+  visibility: "private",
+};
+
+// Stored text uses literal "\\n" sequences; textareas edit real newlines.
+const toEditable = (text: string) => text.replaceAll("\\n", "\n");
+const fromEditable = (text: string) => text.replaceAll("\n", "\\n");
+
+function AdminSongsPage({
+  songs,
+  setSongs,
+  setComments,
+  setLiked,
+  editSlug,
+  navigate,
+}: {
+  songs: Song[];
+  setSongs: Setter<Song[]>;
+  setComments: Setter<CommentThreads>;
+  setLiked: Setter<Liked>;
+  editSlug: string | null;
+  navigate: (to: string) => void;
+}) {
+  const editing = editSlug
+    ? songs.find((s) => s.slug === editSlug) || null
+    : null;
+  const [draft, setDraft] = useState<SongDraft>(EMPTY_DRAFT);
+  const [slugTouched, setSlugTouched] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [status, setStatus] = useState("");
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [fileTags, setFileTags] = useState<AudioTags | null>(null);
+  const analysisTokenRef = useRef(0);
+  const [lastDeleted, setLastDeleted] = useState<{
+    song: Song;
+    index: number;
+    purgeTimer: number;
+  } | null>(null);
+  const loadedIdRef = useRef<number | null | undefined>(undefined);
+
+  // Load the selected song (or a blank form) whenever the route changes;
+  // saving the song being edited doesn't reload the form
+  useEffect(() => {
+    const id = editing?.id ?? null;
+    if (loadedIdRef.current === id) return;
+    loadedIdRef.current = id;
+    if (editing) {
+      const { likes: _likes, ...rest } = editing;
+      setDraft({
+        ...rest,
+        story: toEditable(rest.story),
+        lyrics: toEditable(rest.lyrics),
+        chords: toEditable(rest.chords ?? ""),
+      });
+      setSlugTouched(true);
+    } else {
+      setDraft(EMPTY_DRAFT);
+      setSlugTouched(false);
+    }
+    setPendingFile(null);
+    setFileTags(null);
+    analysisTokenRef.current++;
+    setErrors([]);
+  }, [editing]);
+
+  // Undo window for deletes
+  useEffect(() => {
+    if (!lastDeleted) return;
+    const t = window.setTimeout(() => setLastDeleted(null), 10000);
+    return () => window.clearTimeout(t);
+  }, [lastDeleted]);
+
+  // A deleted song keeps its id and slug until the undo window closes, so
+  // Undo brings it back exactly as it was
+  const reserved = lastDeleted ? [...songs, lastDeleted.song] : songs;
+
+  const set = <K extends keyof SongDraft>(key: K, value: SongDraft[K]) =>
+    setDraft((d) => ({ ...d, [key]: value }));
+
+  const onTitleChange = (title: string) =>
+    setDraft((d) => ({
+      ...d,
+      title,
+      slug: slugTouched ? d.slug : uniqueSlug(slugify(title), reserved, d.id),
+    }));
+
+  // A new address means the stored analysis no longer matches
+  const setAudioUrl = (audioUrl: string) =>
+    setDraft((d) => ({
+      ...d,
+      audioUrl,
+      waveform: undefined,
+      gainDb: undefined,
+    }));
+
+  const applyTags = ({ title, ...rest }: TaggedFields) => {
+    if (title) onTitleChange(title);
+    setDraft((d) => ({ ...d, ...rest }));
+  };
+
+  // Reads the chosen file's real length, waveform and tags; tags only fill
+  // fields that are still empty, the rest are offered in the tags card
+  const chooseFile = async (file: File | null) => {
+    const token = ++analysisTokenRef.current;
+    setPendingFile(file);
+    setFileTags(null);
+    if (!file) return;
+    setStatus(`Reading ${file.name}…`);
+    try {
+      const { duration, peaks, gainDb, tags } = await analyzeAudio(file);
+      if (token !== analysisTokenRef.current) return;
+      const length = formatTime(Math.round(duration));
+      setDraft((d) => {
+        const title = d.title.trim() || !tags.title ? d.title : tags.title;
+        return {
+          ...d,
+          title,
+          slug:
+            slugTouched || title === d.title
+              ? d.slug
+              : uniqueSlug(slugify(title), reserved, d.id),
+          genre: d.genre.trim() || !tags.genre ? d.genre : tags.genre,
+          duration: length,
+          waveform: peaks,
+          gainDb: gainDb ?? 0,
+        };
+      });
+      setFileTags(tags);
+      setStatus(`Read ${file.name}: ${length}.`);
+    } catch (err) {
+      if (token !== analysisTokenRef.current) return;
+      setStatus(
+        `${file.name}: ${
+          err instanceof Error ? err.message : "could not be read."
+        }`
+      );
+    }
+  };
+
+  const slugTaken = reserved.some(
+    (s) => s.slug === draft.slug && s.id !== draft.id
   );
-}
 
-function SubscribePage() {
-  const [email, setEmail] = useState("");
+  const save = () => {
+    const problems: string[] = [];
+    if (!draft.title.trim()) problems.push("Title is required.");
+    if (!/^[a-z0-9-]+$/.test(draft.slug))
+      problems.push("Slug may only contain a–z, 0–9 and dashes.");
+    if (slugTaken) problems.push(`Slug "${draft.slug}" is already in use.`);
+    if (!/^\d+:[0-5]\d$/.test(draft.duration.trim()))
+      problems.push('Duration must look like "3:42".');
+    if (Number.isNaN(new Date(draft.releaseDate).getTime()))
+      problems.push("Release date is invalid.");
+
+    // Synced lines follow edits to the lyrics, keeping times for lines
+    // whose text is unchanged, so the song page shows what was saved
+    const lyrics = fromEditable(draft.lyrics);
+    const syncedLyrics =
+      editing?.syncedLyrics && lyrics !== editing.lyrics
+        ? syncLinesFromLyrics(lyrics, editing.syncedLyrics)
+        : editing?.syncedLyrics;
+    const song: Song = {
+      ...draft,
+      id: draft.id ?? Math.max(0, ...reserved.map((s) => s.id)) + 1,
+      title: draft.title.trim(),
+      duration: draft.duration.trim(),
+      genre: draft.genre.trim(),
+      story: fromEditable(draft.story),
+      lyrics,
+      syncedLyrics: syncedLyrics?.length ? syncedLyrics : undefined,
+      chords: draft.chords?.trim() ? fromEditable(draft.chords) : undefined,
+      audioUrl: draft.audioUrl.trim(),
+      likes: editing?.likes ?? 0,
+      updatedAt: new Date().toISOString(),
+    };
+    const checked = validate(SongSchema, song, "song");
+    if (!checked.ok) problems.push(...checked.errors);
+
+    setErrors(problems);
+    if (problems.length) return;
+
+    if (editing) {
+      setSongs((prev) => prev.map((s) => (s.id === song.id ? song : s)));
+      // Keep the comment thread attached when the slug changes
+      if (editing.slug !== song.slug) {
+        setComments((prev) => {
+          if (!prev[editing.slug]) return prev;
+          const { [editing.slug]: thread, ...rest } = prev;
+          return { ...rest, [song.slug]: thread };
+        });
+      }
+      setStatus(`Saved “${song.title}”.`);
+    } else {
+      setSongs((prev) => [...prev, song]);
+      setStatus(`Created “${song.title}”.`);
+    }
+    if (pendingFile) {
+      setPendingFile(null);
+      putAudio(song.id, pendingFile)
+        .then((audioUrl) =>
+          setSongs((prev) =>
+            prev.map((s) => (s.id === song.id ? { ...s, audioUrl } : s))
+          )
+        )
+        .catch(() =>
+          setStatus("Saved, but the audio file could not be stored.")
+        );
+    }
+    if (editSlug !== song.slug) navigate(`/admin/songs/${song.slug}`);
+  };
+
+  // Once a delete can no longer be undone, drop what was keyed to the song:
+  // its comment thread, its like and its uploaded audio
+  const purgeSong = (song: Song) => {
+    setComments((prev) => {
+      if (!prev[song.slug]) return prev;
+      const { [song.slug]: _thread, ...rest } = prev;
+      return rest;
+    });
+    setLiked((prev) => {
+      if (!(song.id in prev)) return prev;
+      const { [song.id]: _liked, ...rest } = prev;
+      return rest;
+    });
+    deleteAudio(song.id).catch(() => undefined);
+  };
+
+  const remove = (song: Song) => {
+    const index = songs.findIndex((s) => s.id === song.id);
+    if (index === -1) return;
+    // Only the latest delete can be undone
+    if (lastDeleted) {
+      window.clearTimeout(lastDeleted.purgeTimer);
+      purgeSong(lastDeleted.song);
+    }
+    setSongs((prev) => prev.filter((s) => s.id !== song.id));
+    // A plain timer, so the clean-up still runs after leaving this page
+    const purgeTimer = window.setTimeout(() => purgeSong(song), 10000);
+    setLastDeleted({ song, index, purgeTimer });
+    setStatus("");
+    if (editing?.id === song.id) navigate("/admin/songs");
+  };
+
+  const undoDelete = () => {
+    if (!lastDeleted) return;
+    const { song, index, purgeTimer } = lastDeleted;
+    window.clearTimeout(purgeTimer);
+    setSongs((prev) => {
+      if (prev.some((s) => s.id === song.id)) return prev;
+      const next = prev.slice();
+      next.splice(Math.min(index, next.length), 0, song);
+      return next;
+    });
+    setLastDeleted(null);
+  };
+
   return (
-    <section className="max-w-sm mx-auto px-4 py-16 text-center">
-      <h1 className="text-2xl font-semibold">Subscribe for Updates</h1>
-      <p className="mt-2 text-neutral-600">
-        Get an email when a new song drops.
-      </p>
-      <div className="mt-6 grid gap-3">
-        <input
-          value={email}
-          onChange={(e) => setEmail(e.target.value)}
-          placeholder="you@example.com"
-          className="px-3 py-2 rounded-xl border"
-        />
+    <section className="max-w-6xl mx-auto px-4 py-10">
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold">Manage Songs</h1>
+          <p className="text-neutral-600">
+            Add new tracks, edit details, or retire old ones.
+          </p>
+        </div>
         <button
-          className="px-4 py-2 rounded-xl bg-neutral-900 text-white hover:opacity-90"
+          className="px-3 py-2 rounded-xl bg-neutral-900 text-white text-sm hover:opacity-90"
           onClick={() => {
-            alert("Thanks! Check your inbox to confirm.");
-            setEmail("");
+            setStatus("");
+            if (editSlug) navigate("/admin/songs");
+            else {
+              setDraft(EMPTY_DRAFT);
+              setSlugTouched(false);
+              setErrors([]);
+            }
           }}
         >
-          Subscribe
+          + New Song
         </button>
       </div>
-    </section>
-  );
-}
+      <AdminTabs active="songs" navigate={navigate} />
 
-function PrivatePage({
-  unlocked,
-  setUnlocked,
-  songs,
-  onOpenSong,
-  onPlaySong,
-}: any) {
-  const [pw, setPw] = useState("");
-  return (
-    <section className="max-w-3xl mx-auto px-4 py-10">
-      <h1 className="text-2xl font-semibold">Private Area</h1>
-      {!unlocked ? (
-        <div className="mt-4 rounded-2xl border p-4 bg-white">
-          <p className="text-sm text-neutral-700">
-            Enter the family password to access early releases and drafts.
-          </p>
-          <div className="mt-3 flex gap-2">
-            <input
-              value={pw}
-              onChange={(e) => setPw(e.target.value)}
-              type="password"
-              placeholder="Password"
-              className="px-3 py-2 rounded-xl border"
-            />
-            <button
-              className="px-4 py-2 rounded-xl bg-neutral-900 text-white hover:opacity-90"
-              onClick={() => setUnlocked(pw.trim().length > 0)}
-            >
-              Unlock
-            </button>
-          </div>
-          <p className="text-xs text-neutral-500 mt-2">
-            (Prototype: any non-empty password unlocks.)
-          </p>
+      {lastDeleted && (
+        <div className="mt-4 rounded-xl border bg-white p-3 text-sm flex items-center justify-between gap-3">
+          <span>Deleted “{lastDeleted.song.title}”.</span>
+          <button
+            className="px-3 py-1 rounded-lg border hover:bg-neutral-100"
+            onClick={undoDelete}
+          >
+            Undo
+          </button>
         </div>
-      ) : (
-        <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-4">
-          {songs.map((s: any) => (
-            <div key={s.id} className="rounded-2xl border p-4 bg-white">
-              <h3 className="font-semibold">{s.title}</h3>
-              <p className="text-xs text-neutral-600">
-                {s.genre} • {s.duration}
-              </p>
-              <p className="mt-2 text-sm text-neutral-700 line-clamp-2">
-                {s.story.replaceAll("\\n", " ")}
-              </p>
-              <div className="mt-4 flex items-center justify-between">
+      )}
+
+      <div className="mt-6 grid md:grid-cols-3 gap-6">
+        <div className="rounded-2xl border p-4 bg-white">
+          <h2 className="font-semibold">Catalog</h2>
+          <ul className="mt-2 divide-y text-sm">
+            {songs.length === 0 && (
+              <li className="py-2 text-neutral-600">No songs yet.</li>
+            )}
+            {songs.map((s) => (
+              <li
+                key={s.id}
+                className={classNames(
+                  "py-2 flex items-center justify-between gap-2",
+                  editing?.id === s.id && "font-medium"
+                )}
+              >
                 <button
-                  onClick={() => onOpenSong(s)}
-                  className="text-sm underline underline-offset-4"
+                  className="text-left truncate underline-offset-4 hover:underline"
+                  onClick={() => {
+                    setStatus("");
+                    navigate(`/admin/songs/${s.slug}`);
+                  }}
                 >
-                  View lyrics
+                  {s.title}
+                  {s.visibility === "private" && (
+                    <span className="ml-1 text-xs text-neutral-500">
+                      (private)
+                    </span>
+                  )}
                 </button>
                 <button
-                  onClick={() => onPlaySong(s)}
-                  className="px-3 py-2 rounded-xl bg-neutral-900 text-white hover:opacity-90"
+                  className="text-xs px-2 py-1 rounded-lg border hover:bg-neutral-100"
+                  onClick={() => remove(s)}
+                  aria-label={`Delete ${s.title}`}
                 >
-                  Play
+                  Delete
                 </button>
-              </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="md:col-span-2 rounded-2xl border p-4 bg-white">
+          <h2 className="font-semibold">
+            {editing ? `Edit “${editing.title}”` : "New Song"}
+          </h2>
+          {editSlug && !editing && (
+            <p className="mt-1 text-sm text-neutral-600">
+              No song with slug “{editSlug}”. Fill in the form to create one.
+            </p>
+          )}
+          <div className="mt-3 grid gap-3 text-sm">
+            <label className="grid gap-1">
+              <span className="text-xs text-neutral-600">Title</span>
+              <input
+                value={draft.title}
+                onChange={(e) => onTitleChange(e.target.value)}
+                className="px-3 py-2 rounded-xl border"
+              />
+            </label>
+            <label className="grid gap-1">
+              <span className="text-xs text-neutral-600">
+                Slug (URL: {routeHref(`/song/${draft.slug || "…"}`)})
+              </span>
+              <input
+                value={draft.slug}
+                onChange={(e) => {
+                  setSlugTouched(true);
+                  set("slug", slugify(e.target.value));
+                }}
+                className={classNames(
+                  "px-3 py-2 rounded-xl border",
+                  slugTaken && "border-red-500"
+                )}
+              />
+              {slugTaken && (
+                <span className="text-xs text-red-600">
+                  Another song already uses this slug.
+                </span>
+              )}
+            </label>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              <label className="grid gap-1">
+                <span className="text-xs text-neutral-600">Duration</span>
+                <input
+                  value={draft.duration}
+                  onChange={(e) => set("duration", e.target.value)}
+                  placeholder="3:42"
+                  className="px-3 py-2 rounded-xl border"
+                />
+              </label>
+              <label className="grid gap-1">
+                <span className="text-xs text-neutral-600">Release date</span>
+                <input
+                  type="date"
+                  value={draft.releaseDate}
+                  onChange={(e) => set("releaseDate", e.target.value)}
+                  className="px-3 py-2 rounded-xl border"
+                />
+              </label>
+              <label className="grid gap-1">
+                <span className="text-xs text-neutral-600">Visibility</span>
+                <select
+                  value={draft.visibility}
+                  onChange={(e) =>
+                    set("visibility", e.target.value as Visibility)
+                  }
+                  className="px-3 py-2 rounded-xl border bg-white"
+                >
+                  <option value="public">Public</option>
+                  <option value="private">Private</option>
+                </select>
+              </label>
             </div>
-          ))}
+            <label className="grid gap-1">
+              <span className="text-xs text-neutral-600">Genre</span>
+              <input
+                value={draft.genre}
+                onChange={(e) => set("genre", e.target.value)}
+                placeholder="Blues Rock"
+                className="px-3 py-2 rounded-xl border"
+              />
+            </label>
+            <div className="grid gap-1">
+              <span className="text-xs text-neutral-600">Moods</span>
+              <TagInput
+                tags={draft.moods}
+                onChange={(moods) => set("moods", moods)}
+                placeholder="Type a mood and press Enter"
+              />
+            </div>
+            <label className="grid gap-1">
+              <span className="text-xs text-neutral-600">Story</span>
+              <textarea
+                value={draft.story}
+                onChange={(e) => set("story", e.target.value)}
+                className="px-3 py-2 rounded-xl border min-h-[100px]"
+              />
+            </label>
+            <label className="grid gap-1">
+              <span className="text-xs text-neutral-600">Lyrics</span>
+              <textarea
+                value={draft.lyrics}
+                onChange={(e) => set("lyrics", e.target.value)}
+                className="px-3 py-2 rounded-xl border min-h-[140px] font-mono"
+              />
+            </label>
+            <label className="grid gap-1">
+              <span className="text-xs text-neutral-600">
+                Chord chart (optional, ChordPro: [G]inline chords, {"{key: G}"},{" "}
+                {"{start_of_chorus}"} … {"{end_of_chorus}"})
+              </span>
+              <textarea
+                value={draft.chords ?? ""}
+                onChange={(e) => set("chords", e.target.value)}
+                placeholder={"{key: G}\n[G]Mama said be a [C]good boy..."}
+                className="px-3 py-2 rounded-xl border min-h-[140px] font-mono"
+              />
+            </label>
+            <div className="grid gap-1">
+              <span className="text-xs text-neutral-600">Audio</span>
+              {storedAudioId(draft.audioUrl) != null && !pendingFile ? (
+                <div className="flex items-center justify-between gap-2 px-3 py-2 rounded-xl border">
+                  <span>Uploaded file saved in this browser.</span>
+                  <button
+                    className="text-xs px-2 py-1 rounded-lg border hover:bg-neutral-100"
+                    onClick={() => setAudioUrl("")}
+                  >
+                    Detach
+                  </button>
+                </div>
+              ) : (
+                <input
+                  type="url"
+                  value={draft.audioUrl}
+                  onChange={(e) => setAudioUrl(e.target.value)}
+                  placeholder="Paste direct MP3/WAV URL (https://...)"
+                  className="px-3 py-2 rounded-xl border"
+                  disabled={!!pendingFile}
+                />
+              )}
+              <input
+                key={draft.id ?? "new"}
+                type="file"
+                accept="audio/*"
+                className="px-3 py-2 rounded-xl border"
+                onChange={(e) => chooseFile(e.target.files?.[0] ?? null)}
+              />
+              {pendingFile && (
+                <span className="text-xs text-neutral-600">
+                  {pendingFile.name} ({formatBytes(pendingFile.size)}) will be
+                  stored when you save.
+                </span>
+              )}
+              {pendingFile && fileTags && (
+                <AudioTagsCard tags={fileTags} song={draft} onUse={applyTags} />
+              )}
+            </div>
+
+            {errors.length > 0 && (
+              <ul className="rounded-xl border border-red-300 bg-red-50 p-3 text-xs text-red-700 list-disc list-inside">
+                {errors.map((err) => (
+                  <li key={err}>{err}</li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex items-center gap-2">
+              <button
+                className="px-4 py-2 rounded-xl bg-neutral-900 text-white hover:opacity-90"
+                onClick={save}
+              >
+                {editing ? "Save Changes" : "Create Song"}
+              </button>
+              {editing && (
+                <>
+                  <button
+                    className="px-4 py-2 rounded-xl border hover:bg-neutral-100"
+                    onClick={() => navigate(`/song/${editing.slug}`)}
+                  >
+                    View
+                  </button>
+                  <button
+                    className="px-4 py-2 rounded-xl border hover:bg-neutral-100"
+                    onClick={() => remove(editing)}
+                  >
+                    Delete
+                  </button>
+                </>
+              )}
+              {status && <span className="text-neutral-700">{status}</span>}
+            </div>
+          </div>
         </div>
-      )}
+      </div>
     </section>
   );
 }
 
-function DataPage({
+// Switches between the song and story editors
+function AdminTabs({
+  active,
+  navigate,
+}: {
+  active: "songs" | "posts";
+  navigate: (to: string) => void;
+}) {
+  return (
+    <div className="mt-4 flex gap-2 text-sm">
+      {(
+        [
+          { key: "songs", label: "Songs", to: "/admin/songs" },
+          { key: "posts", label: "Stories", to: "/admin/posts" },
+        ] as const
+      ).map((t) => (
+        <button
+          key={t.key}
+          onClick={() => navigate(t.to)}
+          aria-pressed={active === t.key}
+          className={classNames(
+            "px-3 py-1 rounded-xl border",
+            active === t.key
+              ? "bg-neutral-900 text-white"
+              : "hover:bg-neutral-100"
+          )}
+        >
+          {t.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/* -------------------------
+ * Story authoring (#/admin/posts, #/admin/posts/<slug>)
+ * ------------------------- */
+type PostDraft = Omit<Post, "id" | "updatedAt"> & { id: number | null };
+
+const emptyPostDraft = (): PostDraft => ({
+  id: null,
+  title: "",
+  slug: "",
+  date: new Date().toISOString().slice(0, 10),
+  tags: [],
+  content: "",
+  status: "draft",
+  songIds: [],
+});
+
+function AdminPostsPage({
+  posts,
+  setPosts,
   songs,
-  liked,
-  comments,
-  guestbook,
-  privateUnlocked,
-  sortMode,
-  setSongs,
-  setLiked,
-  setComments,
-  setGuestbook,
-  setPrivateUnlocked,
-  setSortMode,
-}: any) {
+  onPlaySong,
+  editSlug,
+  navigate,
+}: {
+  posts: Post[];
+  setPosts: Setter<Post[]>;
+  songs: Song[];
+  onPlaySong: (song: Song) => void;
+  editSlug: string | null;
+  navigate: (to: string) => void;
+}) {
+  const editing = editSlug
+    ? posts.find((p) => p.slug === editSlug) || null
+    : null;
+  const [draft, setDraft] = useState<PostDraft>(emptyPostDraft);
+  const [slugTouched, setSlugTouched] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
   const [status, setStatus] = useState("");
+  const [lastDeleted, setLastDeleted] = useState<{
+    post: Post;
+    index: number;
+  } | null>(null);
+  const loadedIdRef = useRef<number | null | undefined>(undefined);
 
-  const dataObject = useMemo(
-    () => ({
-      version: 1,
-      exportedAt: new Date().toISOString(),
-      songs,
-      liked,
-      comments,
-      guestbook,
-      privateUnlocked,
-      sortMode,
-    }),
-    [songs, liked, comments, guestbook, privateUnlocked, sortMode]
+  // Load the selected post (or a blank form) whenever the route changes;
+  // saving the post being edited doesn't reload the form
+  useEffect(() => {
+    const id = editing?.id ?? null;
+    if (loadedIdRef.current === id) return;
+    loadedIdRef.current = id;
+    if (editing) {
+      const { updatedAt: _updatedAt, ...rest } = editing;
+      setDraft({ ...rest, content: toEditable(rest.content) });
+      setSlugTouched(true);
+    } else {
+      setDraft(emptyPostDraft());
+      setSlugTouched(false);
+    }
+    setErrors([]);
+  }, [editing]);
+
+  // Undo window for deletes
+  useEffect(() => {
+    if (!lastDeleted) return;
+    const t = window.setTimeout(() => setLastDeleted(null), 10000);
+    return () => window.clearTimeout(t);
+  }, [lastDeleted]);
+
+  const set = <K extends keyof PostDraft>(key: K, value: PostDraft[K]) =>
+    setDraft((d) => ({ ...d, [key]: value }));
+
+  const onTitleChange = (title: string) =>
+    setDraft((d) => ({
+      ...d,
+      title,
+      slug: slugTouched ? d.slug : uniqueSlug(slugify(title), posts, d.id),
+    }));
+
+  const slugTaken = posts.some(
+    (p) => p.slug === draft.slug && p.id !== draft.id
+  );
+
+  const preview = useMemo(() => parseMarkdown(draft.content), [draft.content]);
+  const previewCtx: StorySongs = {
+    bySlug: new Map(songs.map((s) => [s.slug, s])),
+    onPlay: onPlaySong,
+    navigate,
+  };
+  const unknownRefs = songRefs(draft.content).filter(
+    (slug) => !songs.some((s) => s.slug === slug)
   );
 
-  const doExport = () => {
-    try {
-      const blob = new Blob([JSON.stringify(dataObject, null, 2)], {
-        type: "application/json",
-      });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `brian-songs-backup-${Date.now()}.json`;
-      a.click();
-      URL.revokeObjectURL(url);
-      setStatus("Exported current data to a JSON file.");
-    } catch {
-      setStatus("Export failed.");
+  const toggleSong = (id: number) =>
+    set(
+      "songIds",
+      draft.songIds.includes(id)
+        ? draft.songIds.filter((x) => x !== id)
+        : [...draft.songIds, id]
+    );
+
+  const save = () => {
+    const problems: string[] = [];
+    if (!draft.title.trim()) problems.push("Title is required.");
+    if (!/^[a-z0-9-]+$/.test(draft.slug))
+      problems.push("Slug may only contain a–z, 0–9 and dashes.");
+    if (slugTaken) problems.push(`Slug "${draft.slug}" is already in use.`);
+    if (Number.isNaN(new Date(draft.date).getTime()))
+      problems.push("Date is invalid.");
+
+    const post: Post = {
+      ...draft,
+      id: draft.id ?? Math.max(0, ...posts.map((p) => p.id)) + 1,
+      title: draft.title.trim(),
+      content: fromEditable(draft.content.trim()),
+      updatedAt: new Date().toISOString(),
+    };
+    const checked = validate(PostSchema, post, "post");
+    if (!checked.ok) problems.push(...checked.errors);
+
+    setErrors(problems);
+    if (problems.length) return;
+
+    if (editing) {
+      setPosts((prev) => prev.map((p) => (p.id === post.id ? post : p)));
+      setStatus(`Saved “${post.title}”.`);
+    } else {
+      setPosts((prev) => [...prev, post]);
+      setStatus(`Created “${post.title}”.`);
     }
+    if (editSlug !== post.slug) navigate(`/admin/posts/${post.slug}`);
   };
 
-  const onImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-    try {
-      const text = await file.text();
-      const parsed = JSON.parse(text);
-
-      if (!parsed || typeof parsed !== "object") throw new Error("Bad JSON");
-      if (Array.isArray(parsed.songs)) setSongs(parsed.songs);
-      if (parsed.liked && typeof parsed.liked === "object")
-        setLiked(parsed.liked);
-      if (parsed.comments && typeof parsed.comments === "object")
-        setComments(parsed.comments);
-      if (Array.isArray(parsed.guestbook)) setGuestbook(parsed.guestbook);
-      if (typeof parsed.privateUnlocked === "boolean")
-        setPrivateUnlocked(parsed.privateUnlocked);
-      if (typeof parsed.sortMode === "string") setSortMode(parsed.sortMode);
-
-      setStatus("Import complete.");
-      e.target.value = "";
-    } catch {
-      setStatus("Import failed: invalid JSON.");
-    }
+  const remove = (post: Post) => {
+    const index = posts.findIndex((p) => p.id === post.id);
+    if (index === -1) return;
+    setPosts((prev) => prev.filter((p) => p.id !== post.id));
+    setLastDeleted({ post, index });
+    setStatus("");
+    if (editing?.id === post.id) navigate("/admin/posts");
   };
 
-  const clearAll = () => {
-    if (
-      !confirm(
-        "This will clear all local data (likes, comments, guestbook, songs). Continue?"
-      )
-    )
-      return;
-    try {
-      const keys = [
-        "msw:songs",
-        "msw:liked",
-        "msw:guestbook",
-        "msw:comments",
-        "msw:priv",
-        "msw:sort",
-      ];
-      keys.forEach((k) => localStorage.removeItem(k));
-      setSongs(SEED_SONGS);
-      setLiked({});
-      setComments({});
-      setGuestbook([]);
-      setPrivateUnlocked(false);
-      setSortMode("newest");
-      setStatus("Local data cleared.");
-    } catch {
-      setStatus("Failed to clear local data.");
-    }
+  const undoDelete = () => {
+    if (!lastDeleted) return;
+    const { post, index } = lastDeleted;
+    setPosts((prev) => {
+      if (prev.some((p) => p.id === post.id)) return prev;
+      const restored = { ...post, slug: uniqueSlug(post.slug, prev, post.id) };
+      const next = prev.slice();
+      next.splice(Math.min(index, next.length), 0, restored);
+      return next;
+    });
+    setLastDeleted(null);
   };
 
   return (
-    <section className="max-w-3xl mx-auto px-4 py-10">
-      <h1 className="text-2xl font-semibold">Data (Export / Import)</h1>
-      <p className="text-neutral-600">
-        Back up or restore your site data without a server.
-      </p>
-
-      <div className="mt-6 grid gap-4">
-        <div className="rounded-2xl border p-4 bg-white">
-          <h2 className="font-semibold">Export</h2>
-          <p className="text-sm text-neutral-600">
-            Download your current data as JSON.
+    <section className="max-w-6xl mx-auto px-4 py-10">
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold">Manage Stories</h1>
+          <p className="text-neutral-600">
+            Write updates, keep drafts, and link posts to songs.
           </p>
+        </div>
+        <button
+          className="px-3 py-2 rounded-xl bg-neutral-900 text-white text-sm hover:opacity-90"
+          onClick={() => {
+            setStatus("");
+            if (editSlug) navigate("/admin/posts");
+            else {
+              setDraft(emptyPostDraft());
+              setSlugTouched(false);
+              setErrors([]);
+            }
+          }}
+        >
+          + New Story
+        </button>
+      </div>
+      <AdminTabs active="posts" navigate={navigate} />
+
+      {lastDeleted && (
+        <div className="mt-4 rounded-xl border bg-white p-3 text-sm flex items-center justify-between gap-3">
+          <span>Deleted “{lastDeleted.post.title}”.</span>
           <button
-            className="mt-3 px-4 py-2 rounded-xl bg-neutral-900 text-white hover:opacity-90"
-            onClick={doExport}
+            className="px-3 py-1 rounded-lg border hover:bg-neutral-100"
+            onClick={undoDelete}
           >
-            Download Backup
+            Undo
           </button>
         </div>
+      )}
 
+      <div className="mt-6 grid md:grid-cols-3 gap-6">
         <div className="rounded-2xl border p-4 bg-white">
-          <h2 className="font-semibold">Import</h2>
-          <p className="text-sm text-neutral-600">
-            Upload a previously exported JSON file to restore data.
-          </p>
-          <input
-            className="mt-3"
-            type="file"
-            accept="application/json"
-            onChange={onImportFile}
-          />
+          <h2 className="font-semibold">Stories</h2>
+          <ul className="mt-2 divide-y text-sm">
+            {posts.length === 0 && (
+              <li className="py-2 text-neutral-600">No stories yet.</li>
+            )}
+            {sortPosts(posts).map((p) => (
+              <li
+                key={p.id}
+                className={classNames(
+                  "py-2 flex items-center justify-between gap-2",
+                  editing?.id === p.id && "font-medium"
+                )}
+              >
+                <button
+                  className="text-left truncate underline-offset-4 hover:underline"
+                  onClick={() => {
+                    setStatus("");
+                    navigate(`/admin/posts/${p.slug}`);
+                  }}
+                >
+                  {p.title}
+                  {p.status !== "published" && (
+                    <span className="ml-1 text-xs text-neutral-500">
+                      ({POST_STATUS_LABELS[p.status].toLowerCase()})
+                    </span>
+                  )}
+                </button>
+                <button
+                  className="text-xs px-2 py-1 rounded-lg border hover:bg-neutral-100"
+                  onClick={() => remove(p)}
+                  aria-label={`Delete ${p.title}`}
+                >
+                  Delete
+                </button>
+              </li>
+            ))}
+          </ul>
         </div>
 
-        <div className="rounded-2xl border p-4 bg-white">
-          <h2 className="font-semibold">Danger Zone</h2>
-          <p className="text-sm text-neutral-600">
-            Clear all local data and reset to defaults.
-          </p>
+        <div className="md:col-span-2 rounded-2xl border p-4 bg-white">
+          <h2 className="font-semibold">
+            {editing ? `Edit “${editing.title}”` : "New Story"}
+          </h2>
+          {editSlug && !editing && (
+            <p className="mt-1 text-sm text-neutral-600">
+              No story with slug “{editSlug}”. Fill in the form to create one.
+            </p>
+          )}
+          <div className="mt-3 grid gap-3 text-sm">
+            <label className="grid gap-1">
+              <span className="text-xs text-neutral-600">Title</span>
+              <input
+                value={draft.title}
+                onChange={(e) => onTitleChange(e.target.value)}
+                className="px-3 py-2 rounded-xl border"
+              />
+            </label>
+            <label className="grid gap-1">
+              <span className="text-xs text-neutral-600">
+                Slug (URL: {routeHref(`/stories/${draft.slug || "…"}`)})
+              </span>
+              <input
+                value={draft.slug}
+                onChange={(e) => {
+                  setSlugTouched(true);
+                  set("slug", slugify(e.target.value));
+                }}
+                className={classNames(
+                  "px-3 py-2 rounded-xl border",
+                  slugTaken && "border-red-500"
+                )}
+              />
+              {slugTaken && (
+                <span className="text-xs text-red-600">
+                  Another story already uses this slug.
+                </span>
+              )}
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="grid gap-1">
+                <span className="text-xs text-neutral-600">Date</span>
+                <input
+                  type="date"
+                  value={draft.date}
+                  onChange={(e) => set("date", e.target.value)}
+                  className="px-3 py-2 rounded-xl border"
+                />
+              </label>
+              <label className="grid gap-1">
+                <span className="text-xs text-neutral-600">Status</span>
+                <select
+                  value={draft.status}
+                  onChange={(e) => set("status", e.target.value as PostStatus)}
+                  className="px-3 py-2 rounded-xl border bg-white"
+                >
+                  {(Object.keys(POST_STATUS_LABELS) as PostStatus[]).map(
+                    (k) => (
+                      <option key={k} value={k}>
+                        {POST_STATUS_LABELS[k]}
+                      </option>
+                    )
+                  )}
+                </select>
+              </label>
+            </div>
+            <div className="grid gap-1">
+              <span className="text-xs text-neutral-600">Tags</span>
+              <TagInput
+                tags={draft.tags}
+                onChange={(tags) => set("tags", tags)}
+                placeholder="Type a tag and press Enter"
+              />
+            </div>
+            <div className="grid gap-1">
+              <span className="text-xs text-neutral-600">Related songs</span>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 px-3 py-2 rounded-xl border">
+                {songs.length === 0 && (
+                  <span className="text-neutral-500">No songs yet.</span>
+                )}
+                {songs.map((s) => (
+                  <label key={s.id} className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={draft.songIds.includes(s.id)}
+                      onChange={() => toggleSong(s.id)}
+                    />
+                    {s.title}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="grid md:grid-cols-2 gap-3">
+              <label className="grid gap-1 content-start">
+                <span className="text-xs text-neutral-600">
+                  Story (Markdown: # heading, **bold**, *italic*,
+                  [link](https://…), - list, &gt; quote, [[song:slug]])
+                </span>
+                <textarea
+                  value={draft.content}
+                  onChange={(e) => set("content", e.target.value)}
+                  className="px-3 py-2 rounded-xl border min-h-[260px] font-mono"
+                />
+                {unknownRefs.length > 0 && (
+                  <span className="text-xs text-amber-700">
+                    No song with slug {unknownRefs.join(", ")}.
+                  </span>
+                )}
+              </label>
+              <div className="grid gap-1 content-start">
+                <span className="text-xs text-neutral-600">Preview</span>
+                <div className="px-3 py-2 rounded-xl border bg-neutral-50 min-h-[260px]">
+                  {preview.length ? (
+                    <StoryMarkdown blocks={preview} ctx={previewCtx} />
+                  ) : (
+                    <p className="text-neutral-500">Nothing to preview yet.</p>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            {errors.length > 0 && (
+              <ul className="rounded-xl border border-red-300 bg-red-50 p-3 text-xs text-red-700 list-disc list-inside">
+                {errors.map((err) => (
+                  <li key={err}>{err}</li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex items-center gap-2">
+              <button
+                className="px-4 py-2 rounded-xl bg-neutral-900 text-white hover:opacity-90"
+                onClick={save}
+              >
+                {editing ? "Save Changes" : "Create Story"}
+              </button>
+              {editing && (
+                <>
+                  <button
+                    className="px-4 py-2 rounded-xl border hover:bg-neutral-100"
+                    onClick={() => navigate(`/stories/${editing.slug}`)}
+                  >
+                    View
+                  </button>
+                  <button
+                    className="px-4 py-2 rounded-xl border hover:bg-neutral-100"
+                    onClick={() => remove(editing)}
+                  >
+                    Delete
+                  </button>
+                </>
+              )}
+              {status && <span className="text-neutral-700">{status}</span>}
+            </div>
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+}
+
+function TagInput({
+  tags,
+  onChange,
+  placeholder,
+}: {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  placeholder?: string;
+}) {
+  const [text, setText] = useState("");
+  const commit = () => {
+    const tag = text.trim().toLowerCase().replace(/,$/, "");
+    if (tag && !tags.includes(tag)) onChange([...tags, tag]);
+    setText("");
+  };
+  return (
+    <div className="flex flex-wrap items-center gap-2 px-2 py-2 rounded-xl border">
+      {tags.map((t) => (
+        <span
+          key={t}
+          className="inline-flex items-center gap-1 px-2 py-1 rounded-lg bg-neutral-100 text-xs"
+        >
+          {t}
           <button
-            className="mt-3 px-4 py-2 rounded-xl border hover:bg-neutral-100"
-            onClick={clearAll}
+            onClick={() => onChange(tags.filter((x) => x !== t))}
+            aria-label={`Remove ${t}`}
+            className="hover:opacity-70"
           >
-            Clear Local Data
+            ×
           </button>
-        </div>
+        </span>
+      ))}
+      <input
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" || e.key === ",") {
+            e.preventDefault();
+            commit();
+          } else if (e.key === "Backspace" && !text && tags.length) {
+            onChange(tags.slice(0, -1));
+          }
+        }}
+        onBlur={commit}
+        placeholder={tags.length ? "" : placeholder}
+        className="flex-1 min-w-[8rem] px-1 py-1 focus:outline-none"
+      />
+    </div>
+  );
+}
 
-        {status && <p className="text-sm text-neutral-700">{status}</p>}
+const DIFF_LABELS: Record<keyof SiteData, string> = {
+  songs: "Songs",
+  liked: "Likes",
+  comments: "Comments",
+  guestbook: "Guestbook",
+  sortMode: "Sort preference",
+  playlists: "Playlists",
+  posts: "Stories",
+};
+
+function ImportPreview({
+  fileName,
+  diff,
+  onApply,
+  onCancel,
+}: {
+  fileName: string;
+  diff: BackupDiff;
+  onApply: (strategy: MergeStrategy) => void;
+  onCancel: () => void;
+}) {
+  const rows = (Object.keys(DIFF_LABELS) as (keyof SiteData)[]).filter(
+    (k) => diff[k]
+  );
+  const hasChanges = rows.some((k) => {
+    const d = diff[k]!;
+    return d.added.length + d.changed.length + d.removed.length > 0;
+  });
+
+  return (
+    <div className="mt-4 rounded-xl border p-3 bg-neutral-50">
+      <h3 className="font-medium text-sm">Preview: {fileName}</h3>
+      {rows.length === 0 ? (
+        <p className="mt-2 text-sm text-neutral-600">
+          This file contains no collections to import.
+        </p>
+      ) : (
+        <table className="mt-2 w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-neutral-500">
+              <th className="font-normal py-1">Collection</th>
+              <th className="font-normal py-1">Added</th>
+              <th className="font-normal py-1">Changed</th>
+              <th className="font-normal py-1">Removed*</th>
+              <th className="font-normal py-1">Same</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((k) => {
+              const d = diff[k]!;
+              return (
+                <tr key={k} className="border-t align-top">
+                  <td className="py-1 pr-2">{DIFF_LABELS[k]}</td>
+                  {[d.added, d.changed, d.removed].map((items, i) => (
+                    <td key={i} className="py-1 pr-2">
+                      {items.length === 0 ? (
+                        <span className="text-neutral-400">0</span>
+                      ) : (
+                        <details>
+                          <summary className="cursor-pointer">
+                            {items.length}
+                          </summary>
+                          <ul className="mt-1 text-xs text-neutral-600 space-y-0.5">
+                            {items.slice(0, 10).map((item) => (
+                              <li key={item.key} className="break-words">
+                                {item.label}
+                              </li>
+                            ))}
+                            {items.length > 10 && (
+                              <li>…and {items.length - 10} more</li>
+                            )}
+                          </ul>
+                        </details>
+                      )}
+                    </td>
+                  ))}
+                  <td className="py-1 text-neutral-500">{d.unchanged}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+      <p className="mt-2 text-xs text-neutral-500">
+        *Removed only when replacing. Merging keeps everything you have; “keep
+        newer” takes a backup song only if it was edited more recently.
+      </p>
+      <div className="mt-3 flex flex-wrap gap-2 text-sm">
+        <button
+          className="px-3 py-2 rounded-xl bg-neutral-900 text-white hover:opacity-90 disabled:opacity-50"
+          onClick={() => onApply("newer")}
+          disabled={!hasChanges}
+        >
+          Merge (keep newer)
+        </button>
+        <button
+          className="px-3 py-2 rounded-xl border hover:bg-neutral-100 disabled:opacity-50"
+          onClick={() => onApply("local")}
+          disabled={!hasChanges}
+        >
+          Merge (keep local)
+        </button>
+        <button
+          className="px-3 py-2 rounded-xl border hover:bg-neutral-100 disabled:opacity-50"
+          onClick={() => onApply("replace")}
+          disabled={rows.length === 0}
+        >
+          Replace
+        </button>
+        <button
+          className="px-3 py-2 rounded-xl border hover:bg-neutral-100"
+          onClick={onCancel}
+        >
+          Cancel
+        </button>
       </div>
-    </section>
+    </div>
   );
 }
 
-function CommentForm({ onSubmit }: any) {
+function CommentForm({
+  onSubmit,
+}: {
+  onSubmit: (entry: { name: string; message: string }) => void;
+}) {
   const [name, setName] = useState("");
   const [message, setMessage] = useState("");
   return (
@@ -1418,7 +9396,19 @@ function CommentForm({ onSubmit }: any) {
   );
 }
 
-function SongCard({ song, onPlay }: any) {
+function SongCard({
+  song,
+  onPlay,
+  onPlayNext,
+  onAddToQueue,
+  playlistPicker,
+}: {
+  song: Song;
+  onPlay: () => void;
+  onPlayNext?: () => void;
+  onAddToQueue?: () => void;
+  playlistPicker?: PlaylistPicker;
+}) {
   return (
     <div className="rounded-2xl border p-4 bg-white">
       <div className="flex items-start justify-between gap-3">
@@ -1438,36 +9428,620 @@ function SongCard({ song, onPlay }: any) {
       <p className="mt-2 text-sm text-neutral-700 line-clamp-2">
         {song.story.replaceAll("\\n", " ")}
       </p>
+      {onPlayNext && onAddToQueue && (
+        <div className="mt-3 flex flex-wrap items-center gap-2">
+          <QueueButtons onPlayNext={onPlayNext} onAddToQueue={onAddToQueue} />
+          {playlistPicker && (
+            <AddToPlaylistMenu song={song} picker={playlistPicker} />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function QueueButtons({
+  onPlayNext,
+  onAddToQueue,
+}: {
+  onPlayNext: () => void;
+  onAddToQueue: () => void;
+}) {
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <button
+        className="px-2 py-1 rounded-lg border hover:bg-neutral-100"
+        onClick={onPlayNext}
+        title="Play right after the current song"
+      >
+        ⤴ Play next
+      </button>
+      <button
+        className="px-2 py-1 rounded-lg border hover:bg-neutral-100"
+        onClick={onAddToQueue}
+        title="Add to the end of the queue"
+      >
+        + Queue
+      </button>
+    </div>
+  );
+}
+
+// Everything a song card needs for its "+ Playlist" menu
+type PlaylistPicker = {
+  playlists: Playlist[];
+  onAdd: (playlistId: number, song: Song) => void;
+  onCreate: (name: string, song: Song) => void;
+};
+
+function AddToPlaylistMenu({
+  song,
+  picker,
+}: {
+  song: Song;
+  picker: PlaylistPicker;
+}) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [added, setAdded] = useState("");
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close on a click outside or Escape
+  useEffect(() => {
+    if (!open) return;
+    const onPointer = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setOpen(false);
+    };
+    document.addEventListener("mousedown", onPointer);
+    document.addEventListener("keydown", onKey);
+    return () => {
+      document.removeEventListener("mousedown", onPointer);
+      document.removeEventListener("keydown", onKey);
+    };
+  }, [open]);
+
+  useEffect(() => {
+    if (!added) return;
+    const t = window.setTimeout(() => setAdded(""), 2000);
+    return () => window.clearTimeout(t);
+  }, [added]);
+
+  const done = (label: string) => {
+    setOpen(false);
+    setName("");
+    setAdded(label);
+  };
+
+  return (
+    <div ref={menuRef} className="relative text-xs">
+      <button
+        className="px-2 py-1 rounded-lg border hover:bg-neutral-100"
+        onClick={() => setOpen(!open)}
+        aria-haspopup="menu"
+        aria-expanded={open}
+        title="Add to one of your playlists"
+      >
+        {added ? `✓ Added to ${added}` : "+ Playlist"}
+      </button>
+      {open && (
+        <div
+          role="menu"
+          className="absolute z-30 left-0 mt-1 w-56 rounded-xl border bg-white shadow-lg p-2"
+        >
+          {picker.playlists.length > 0 && (
+            <ul className="max-h-48 overflow-y-auto">
+              {picker.playlists.map((p) => {
+                const has = p.songIds.includes(song.id);
+                return (
+                  <li key={p.id}>
+                    <button
+                      role="menuitem"
+                      className="w-full text-left px-2 py-1 rounded-lg hover:bg-neutral-100 disabled:text-neutral-400 disabled:hover:bg-transparent"
+                      onClick={() => {
+                        picker.onAdd(p.id, song);
+                        done(p.name);
+                      }}
+                      disabled={has}
+                    >
+                      {has ? "✓ " : ""}
+                      {p.name}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+          <form
+            className={classNames(
+              "flex gap-1",
+              picker.playlists.length > 0 && "mt-2 pt-2 border-t"
+            )}
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (!name.trim()) return;
+              picker.onCreate(name, song);
+              done(name.trim());
+            }}
+          >
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="New playlist"
+              className="flex-1 min-w-0 px-2 py-1 rounded-lg border"
+              aria-label="New playlist name"
+            />
+            <button
+              type="submit"
+              className="px-2 py-1 rounded-lg border hover:bg-neutral-100 disabled:opacity-50"
+              disabled={!name.trim()}
+            >
+              Create
+            </button>
+          </form>
+        </div>
+      )}
     </div>
   );
 }
 
-/* -------------------------
- * MiniPlayer (queue-based)
- * ------------------------- */
+/* -------------------------
+ * MiniPlayer (queue-based)
+ * ------------------------- */
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+// Crossfade lengths in seconds; 0 hands off gaplessly without a fade
+const CROSSFADE_OPTIONS = Array.from({ length: 13 }, (_, i) => i);
+// The preloaded deck starts this early to cover output latency
+const GAPLESS_LEAD = 0.03;
+
+// Five-band EQ: shelves at both ends, peaking filters in between
+const EQ_BANDS: { type: BiquadFilterType; frequency: number; label: string }[] =
+  [
+    { type: "lowshelf", frequency: 60, label: "60 Hz" },
+    { type: "peaking", frequency: 250, label: "250 Hz" },
+    { type: "peaking", frequency: 1000, label: "1 kHz" },
+    { type: "peaking", frequency: 4000, label: "4 kHz" },
+    { type: "highshelf", frequency: 12000, label: "12 kHz" },
+  ];
+
+const EQ_PRESETS: Record<string, number[]> = {
+  Flat: [0, 0, 0, 0, 0],
+  "Bass boost": [6, 3, 0, 0, 0],
+  Vocal: [-2, -1, 3, 2, 0],
+  Bright: [0, 0, 0, 3, 5],
+  Acoustic: [3, 1, -1, 2, 3],
+  "Late night": [-4, -1, 1, 0, -3],
+};
+
+const FLAT_EQ: EqSettings = { preset: "Flat", gains: EQ_PRESETS.Flat };
+
+function isSameOrigin(src: string) {
+  try {
+    return new URL(src, window.location.href).origin === window.location.origin;
+  } catch {
+    return false;
+  }
+}
+
+// Cross-origin media is silent in Web Audio unless it was fetched with
+// CORS, so only uploads, files on this site and measured links (their host
+// allowed a CORS read) go through the sound graph
+function canProcess(src: string, song: Song | null) {
+  return !!src && (isSameOrigin(src) || song?.gainDb != null);
+}
+
+const MEDIA_ARTIST = "Brian Nay";
+const MEDIA_ARTWORK: MediaImage[] = [
+  { src: "/og-cover.png", sizes: "1024x1024", type: "image/png" },
+];
+
+function formatTime(seconds: number) {
+  if (!Number.isFinite(seconds) || seconds < 0) seconds = 0;
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${String(s).padStart(2, "0")}`;
+}
+
+// Imperative controls the App-level keyboard shortcuts use
+type PlayerHandle = {
+  togglePlay: () => void;
+  seekBy: (seconds: number) => void;
+  seekTo: (seconds: number) => void;
+  restart: () => void; // from 0:00, playing
+  currentTime: () => number;
+};
+
 function MiniPlayer({
+  playerRef,
   currentSong,
+  nextSong,
   isPlaying,
   setIsPlaying,
-  canStep,
+  canStepPrev,
+  canStepNext,
   onStepPrev,
   onStepNext,
+  onEnded,
   onStop,
+  shuffle,
+  onToggleShuffle,
+  repeatMode,
+  onCycleRepeat,
+  queueSongs,
+  queueIndex,
+  onJumpTo,
+  onRemoveFromQueue,
+  onMoveInQueue,
 }: {
-  currentSong: any;
+  playerRef: React.Ref<PlayerHandle>;
+  currentSong: Song | null;
+  nextSong: Song | null; // what auto-advance plays next; preloaded
   isPlaying: boolean;
   setIsPlaying: (v: boolean) => void;
-  canStep: boolean;
+  canStepPrev: boolean;
+  canStepNext: boolean;
   onStepPrev: () => void;
   onStepNext: () => void;
+  onEnded: () => void;
   onStop: () => void;
+  shuffle: boolean;
+  onToggleShuffle: () => void;
+  repeatMode: RepeatMode;
+  onCycleRepeat: () => void;
+  queueSongs: (Song | null)[];
+  queueIndex: number | null;
+  onJumpTo: (index: number) => void;
+  onRemoveFromQueue: (index: number) => void;
+  onMoveInQueue: (from: number, to: number) => void;
 }) {
-  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const [showQueue, setShowQueue] = useState(false);
   const prevIdRef = useRef<number | null>(null);
   const prevUrlRef = useRef<string | null>(null);
+  const loadTokenRef = useRef(0);
+
+  /* Two decks: the active one plays currentSong while the standby preloads
+   * nextSong, so auto-advance can start it without a gap or fade the two
+   * together. audioRef always points at the active deck. */
+  const deckRefs = useRef<(HTMLAudioElement | null)[]>([null, null]);
+  const deckUrlsRef = useRef<(string | null)[]>([null, null]); // object URLs
+  const activeDeckRef = useRef(0);
+  const [activeDeck, setActiveDeck] = useState(0);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const preloadRef = useRef<{ songId: number; url: string } | null>(null);
+  const preloadTokenRef = useRef(0);
+  const handoffRef = useRef<{ songId: number; url: string } | null>(null);
+  const fadeRef = useRef<{
+    timer: number;
+    outgoing: HTMLAudioElement;
+  } | null>(null);
+  const [fading, setFading] = useState(false);
+  const watchRef = useRef<number | null>(null);
+
+  /* Sound graph: each processable deck runs through its own gain (loudness
+   * normalisation) into the shared EQ. A media element can never be
+   * unwired, so a wired deck is swapped for a fresh element (deckKeys)
+   * before it plays a track that can't be processed. */
+  const graphRef = useRef<{
+    ctx: AudioContext;
+    bands: BiquadFilterNode[];
+  } | null>(null);
+  const deckNodesRef = useRef<
+    ({ el: HTMLAudioElement; gain: GainNode } | null)[]
+  >([null, null]);
+  const deckSongsRef = useRef<(number | null)[]>([null, null]);
+  const processableRef = useRef([false, false]);
+  const pendingLoadRef = useRef<({ src: string; play: boolean } | null)[]>([
+    null,
+    null,
+  ]);
+  const [deckKeys, setDeckKeys] = useState([0, 0]);
+  const [showSound, setShowSound] = useState(false);
+  const [normalize, setNormalize] = useLocalStorage(
+    "msw:normalize",
+    true,
+    v.boolean()
+  );
+  const [eq, setEq] = useLocalStorage("msw:eq", FLAT_EQ, EqSettingsSchema);
+
+  const [position, setPosition] = useState(0);
+  const [length, setLength] = useState(0);
+  const [volume, setVolume] = useLocalStorage("msw:volume", 1, v.number());
+  const [muted, setMuted] = useLocalStorage("msw:muted", false, v.boolean());
+  const [rate, setRate] = useLocalStorage("msw:rate", 1, v.number());
+  const [crossfade, setCrossfade] = useLocalStorage(
+    "msw:crossfade",
+    0,
+    v.number()
+  );
+  const crossfadeSeconds = Math.min(12, Math.max(0, Math.round(crossfade)));
+  const level = Math.min(1, Math.max(0, volume));
+  const levelRef = useRef(level);
+  levelRef.current = level;
+
+  // Session restore: the first track loaded after a reload is cued at the
+  // saved position (0:00 when there is none) but left paused until the
+  // user presses play.
+  const [savedPosition, setSavedPosition] = useLocalStorage(
+    "msw:position",
+    null,
+    SavedPositionSchema
+  );
+  const restoreRef = useRef(savedPosition);
+  const restoringRef = useRef(true); // until the first track loads
+  const pendingSeekRef = useRef<number | null>(null);
+  const lastSavedTimeRef = useRef(savedPosition?.time ?? 0);
+
+  const savePosition = (time: number) => {
+    if (!currentSong) return;
+    lastSavedTimeRef.current = time;
+    setSavedPosition({ songId: currentSong.id, time });
+  };
+
+  // A running fade sets deck volumes itself on its next tick
+  useEffect(() => {
+    for (const audio of deckRefs.current) {
+      if (!audio) continue;
+      audio.volume = level;
+      audio.muted = muted;
+    }
+  }, [level, muted]);
 
-  // Only (re)load when the actual track changed (id or url)
+  // defaultPlaybackRate survives src changes; playbackRate does not
   useEffect(() => {
+    for (const audio of deckRefs.current) {
+      if (!audio) continue;
+      audio.defaultPlaybackRate = rate;
+      audio.playbackRate = rate;
+    }
+  }, [rate]);
+
+  const releaseDeckUrl = (deck: number) => {
+    const url = deckUrlsRef.current[deck];
+    if (url) URL.revokeObjectURL(url);
+    deckUrlsRef.current[deck] = null;
+  };
+
+  const applyGains = () => {
+    const graph = graphRef.current;
+    if (!graph) return;
+    deckNodesRef.current.forEach((nodes, deck) => {
+      if (!nodes) return;
+      const id = deckSongsRef.current[deck];
+      const song = [currentSong, nextSong, ...queueSongs].find(
+        (s) => s?.id === id
+      );
+      const db = normalize ? song?.gainDb ?? 0 : 0;
+      nodes.gain.gain.setTargetAtTime(
+        10 ** (db / 20),
+        graph.ctx.currentTime,
+        0.05
+      );
+    });
+  };
+
+  const applyEq = () => {
+    const graph = graphRef.current;
+    if (!graph) return;
+    graph.bands.forEach((band, i) =>
+      band.gain.setTargetAtTime(eq.gains[i] ?? 0, graph.ctx.currentTime, 0.05)
+    );
+  };
+
+  // The effects call the latest render's versions
+  const soundRef = useRef({ applyGains, applyEq });
+  soundRef.current = { applyGains, applyEq };
+  useEffect(
+    () => soundRef.current.applyGains(),
+    [normalize, currentSong?.gainDb, nextSong?.gainDb, activeDeck]
+  );
+  useEffect(() => soundRef.current.applyEq(), [eq]);
+
+  const connectDeck = (deck: number) => {
+    const graph = graphRef.current;
+    const el = deckRefs.current[deck];
+    if (!graph || graph.ctx.state !== "running" || !el) return;
+    if (!processableRef.current[deck] || deckNodesRef.current[deck]?.el === el)
+      return;
+    try {
+      const gain = graph.ctx.createGain();
+      graph.ctx.createMediaElementSource(el).connect(gain);
+      gain.connect(graph.bands[0]);
+      deckNodesRef.current[deck] = { el, gain };
+      applyGains();
+    } catch {
+      /* already wired, e.g. after a hot reload */
+    }
+  };
+
+  // Created on the first play (browsers only start audio after a gesture).
+  // Decks are wired in once the context runs, so a context the browser
+  // keeps suspended never silences playback.
+  const ensureGraph = () => {
+    if (typeof AudioContext === "undefined") return;
+    let graph = graphRef.current;
+    if (!graph) {
+      const ctx = new AudioContext();
+      const bands = EQ_BANDS.map(({ type, frequency }) => {
+        const filter = ctx.createBiquadFilter();
+        filter.type = type;
+        filter.frequency.value = frequency;
+        return filter;
+      });
+      bands
+        .reduce((prev, next) => {
+          prev.connect(next);
+          return next;
+        })
+        .connect(ctx.destination);
+      graph = graphRef.current = { ctx, bands };
+      applyEq();
+    }
+    graph.ctx
+      .resume()
+      .then(() => {
+        connectDeck(0);
+        connectDeck(1);
+      })
+      .catch(() => undefined);
+  };
+
+  // Puts `src` on a deck; fresh elements also need the current settings
+  const fillDeck = (deck: number, src: string, play: boolean) => {
+    const el = deckRefs.current[deck];
+    if (!el) return;
+    if (!src) {
+      // An empty src would point the element at the page itself
+      el.removeAttribute("src");
+      el.load();
+      return;
+    }
+    el.crossOrigin =
+      processableRef.current[deck] && !isSameOrigin(src) ? "anonymous" : null;
+    el.src = src;
+    el.defaultPlaybackRate = rate;
+    el.playbackRate = rate;
+    el.volume = levelRef.current;
+    el.muted = muted;
+    connectDeck(deck);
+    applyGains();
+    if (!play) return;
+    ensureGraph();
+    el.play()
+      .then(() => setIsPlaying(true))
+      .catch(() => setIsPlaying(false));
+  };
+
+  const loadDeck = (
+    deck: number,
+    src: string,
+    song: Song | null,
+    play: boolean
+  ) => {
+    const el = deckRefs.current[deck];
+    const nodes = deckNodesRef.current[deck];
+    deckSongsRef.current[deck] = song?.id ?? null;
+    processableRef.current[deck] = canProcess(src, song);
+    if (el && nodes?.el === el && !processableRef.current[deck]) {
+      // Filled in by the new element's ref callback
+      el.pause();
+      el.removeAttribute("src");
+      el.load();
+      nodes.gain.disconnect();
+      deckNodesRef.current[deck] = null;
+      if (audioRef.current === el) audioRef.current = null;
+      pendingLoadRef.current[deck] = { src, play };
+      setDeckKeys((keys) => keys.map((k, i) => (i === deck ? k + 1 : k)));
+      return;
+    }
+    fillDeck(deck, src, play);
+  };
+
+  // Makes the standby deck active and returns it
+  const switchDeck = () => {
+    const deck = 1 - activeDeckRef.current;
+    activeDeckRef.current = deck;
+    setActiveDeck(deck);
+    audioRef.current = deckRefs.current[deck];
+    preloadRef.current = null;
+    loadTokenRef.current++;
+    preloadTokenRef.current++;
+    return deckRefs.current[deck]!;
+  };
+
+  // Ends a hand-off (or cuts it short): silences the outgoing deck and
+  // puts the active one back at full volume
+  const finishFade = () => {
+    const fade = fadeRef.current;
+    if (!fade) return;
+    window.clearInterval(fade.timer);
+    fadeRef.current = null;
+    fade.outgoing.pause();
+    fade.outgoing.volume = levelRef.current;
+    if (audioRef.current) audioRef.current.volume = levelRef.current;
+    setFading(false);
+  };
+
+  const stopWatch = () => {
+    if (watchRef.current != null) window.clearInterval(watchRef.current);
+    watchRef.current = null;
+  };
+
+  // Wall-clock seconds left, and how long before the end the hand-off starts
+  const remainingOf = (audio: HTMLAudioElement) =>
+    (audio.duration - audio.currentTime) / (audio.playbackRate || 1);
+  const handoffLead = (audio: HTMLAudioElement) =>
+    crossfadeSeconds > 0
+      ? Math.min(crossfadeSeconds, audio.duration / 2)
+      : GAPLESS_LEAD;
+
+  const canHandOff = () =>
+    nextSong != null &&
+    preloadRef.current?.songId === nextSong.id &&
+    preloadRef.current.url === nextSong.audioUrl &&
+    !fadeRef.current &&
+    repeatMode !== "one" &&
+    Number.isFinite(audioRef.current?.duration);
+
+  // Starts the preloaded next track on the standby deck (fading the two
+  // together when crossfade is on) and advances the queue as if the track
+  // had ended. Returns false when nothing is ready to take over.
+  const beginHandoff = () => {
+    const outgoing = audioRef.current;
+    if (!outgoing || !nextSong || !canHandOff()) return false;
+    stopWatch();
+    const seconds =
+      crossfadeSeconds > 0 ? Math.max(0, remainingOf(outgoing)) : 0;
+    handoffRef.current = { songId: nextSong.id, url: nextSong.audioUrl };
+    const incoming = switchDeck();
+    incoming.currentTime = 0;
+    incoming.volume = seconds > 0 ? 0 : levelRef.current;
+    incoming.play().catch(() => setIsPlaying(false));
+    setPosition(0);
+    syncLength();
+
+    // Equal-power curves keep the overall loudness steady; without a fade
+    // the outgoing deck simply plays out its last few milliseconds
+    const start = performance.now();
+    const tick = () => {
+      const elapsed = (performance.now() - start) / 1000;
+      if (seconds > 0) {
+        const t = Math.min(1, elapsed / seconds);
+        outgoing.volume = levelRef.current * Math.cos((t * Math.PI) / 2);
+        incoming.volume = levelRef.current * Math.sin((t * Math.PI) / 2);
+      }
+      if (outgoing.ended || elapsed > seconds + 0.5) finishFade();
+    };
+    fadeRef.current = { timer: window.setInterval(tick, 50), outgoing };
+    setFading(true);
+    onEnded();
+    return true;
+  };
+
+  // Polled close to the end of a track; the interval always calls the
+  // latest render's closure
+  const watchCheckRef = useRef(() => {});
+  watchCheckRef.current = () => {
+    const audio = audioRef.current;
+    if (!audio || audio.paused || !canHandOff()) return stopWatch();
+    const remaining = remainingOf(audio);
+    if (remaining > handoffLead(audio) + 1) stopWatch(); // seeked back
+    else if (remaining <= handoffLead(audio)) beginHandoff();
+  };
+
+  const watchForEnd = () => {
+    const audio = audioRef.current;
+    if (!audio || watchRef.current != null || !canHandOff()) return;
+    if (remainingOf(audio) > handoffLead(audio) + 1) return;
+    watchRef.current = window.setInterval(() => watchCheckRef.current(), 20);
+  };
+
+  // Only (re)load when the actual track changed (id or url). The effect
+  // below calls the latest render's closure.
+  const loadTrackRef = useRef(() => {});
+  loadTrackRef.current = () => {
     const audio = audioRef.current;
     if (!audio) return;
 
@@ -1480,17 +10054,137 @@ function MiniPlayer({
       prevIdRef.current = id;
       prevUrlRef.current = url;
 
-      audio.src = url || "";
-      if (url) {
-        audio
+      const restoring = restoringRef.current && id != null;
+      if (restoring) restoringRef.current = false;
+      const restore = restoreRef.current;
+      const resumeAt = !restoring
+        ? null
+        : restore?.songId === id
+        ? restore.time
+        : 0;
+
+      // Auto-advance already started this track on the other deck
+      const handoff = handoffRef.current;
+      handoffRef.current = null;
+      if (handoff && handoff.songId === id && handoff.url === url) {
+        pendingSeekRef.current = null;
+        lastSavedTimeRef.current = 0;
+        setSavedPosition({ songId: handoff.songId, time: 0 });
+        return;
+      }
+      finishFade();
+      stopWatch();
+
+      // Stepping to the preloaded song just switches decks
+      const preloaded = preloadRef.current;
+      if (
+        resumeAt == null &&
+        preloaded &&
+        preloaded.songId === id &&
+        preloaded.url === url
+      ) {
+        audio.pause();
+        const incoming = switchDeck();
+        incoming.currentTime = 0;
+        incoming.volume = levelRef.current;
+        pendingSeekRef.current = null;
+        setPosition(0);
+        syncLength();
+        lastSavedTimeRef.current = 0;
+        setSavedPosition({ songId: preloaded.songId, time: 0 });
+        ensureGraph();
+        incoming
           .play()
           .then(() => setIsPlaying(true))
           .catch(() => setIsPlaying(false));
-      } else {
-        setIsPlaying(false);
+        return;
       }
+
+      // Stored files resolve asynchronously; ignore results for stale tracks
+      const token = ++loadTokenRef.current;
+      const deck = activeDeckRef.current;
+      resolveAudioUrl(url)
+        .catch(() => "")
+        .then((src) => {
+          if (token !== loadTokenRef.current) {
+            if (src && src !== url) URL.revokeObjectURL(src);
+            return;
+          }
+          releaseDeckUrl(deck);
+          if (src && src !== url) deckUrlsRef.current[deck] = src;
+
+          setLength(0);
+          if (resumeAt != null) {
+            pendingSeekRef.current = resumeAt;
+            setPosition(resumeAt);
+            setIsPlaying(false);
+          } else {
+            pendingSeekRef.current = null;
+            setPosition(0);
+            lastSavedTimeRef.current = 0;
+            setSavedPosition(id == null ? null : { songId: id, time: 0 });
+            if (!src) setIsPlaying(false);
+          }
+          loadDeck(deck, src || "", currentSong, resumeAt == null && !!src);
+        });
+    }
+  };
+
+  useEffect(
+    () => loadTrackRef.current(),
+    [currentSong?.id, currentSong?.audioUrl]
+  );
+
+  // Preload the next track on the standby deck once any fade has finished;
+  // like track loading, the effect calls the latest render's closure
+  const preloadNextRef = useRef(() => {});
+  preloadNextRef.current = () => {
+    const deck = 1 - activeDeckRef.current;
+    const standby = deckRefs.current[deck];
+    if (!standby || fading) return;
+    const id = nextSong?.id ?? null;
+    const url = nextSong?.audioUrl ?? "";
+    const preloaded = preloadRef.current;
+    if (preloaded && preloaded.songId === id && preloaded.url === url) return;
+
+    preloadRef.current = null;
+    const token = ++preloadTokenRef.current;
+    if (id == null || !url) {
+      standby.removeAttribute("src");
+      standby.load();
+      releaseDeckUrl(deck);
+      deckSongsRef.current[deck] = null;
+      return;
     }
-  }, [currentSong?.id, currentSong?.audioUrl, setIsPlaying]);
+    resolveAudioUrl(url)
+      .catch(() => "")
+      .then((src) => {
+        if (token !== preloadTokenRef.current) {
+          if (src && src !== url) URL.revokeObjectURL(src);
+          return;
+        }
+        releaseDeckUrl(deck);
+        if (src && src !== url) deckUrlsRef.current[deck] = src;
+        if (!src) return;
+        loadDeck(deck, src, nextSong, false);
+        preloadRef.current = { songId: id, url };
+      });
+  };
+
+  useEffect(
+    () => preloadNextRef.current(),
+    [nextSong?.id, nextSong?.audioUrl, activeDeck, fading]
+  );
+
+  useEffect(
+    () => () => {
+      if (fadeRef.current) window.clearInterval(fadeRef.current.timer);
+      if (watchRef.current != null) window.clearInterval(watchRef.current);
+      for (const url of deckUrlsRef.current) if (url) URL.revokeObjectURL(url);
+      graphRef.current?.ctx.close().catch(() => undefined);
+    },
+    []
+  );
 
   const togglePlay = () => {
     const audio = audioRef.current;
@@ -1503,27 +10197,209 @@ function MiniPlayer({
       return;
     }
     if (audio.paused) {
-      audio.play();
-      setIsPlaying(true);
+      ensureGraph();
+      audio
+        .play()
+        .then(() => setIsPlaying(true))
+        .catch(() => setIsPlaying(false));
     } else {
+      finishFade();
       audio.pause();
       setIsPlaying(false);
     }
   };
 
   const stop = () => {
+    finishFade();
+    stopWatch();
     const audio = audioRef.current;
     if (audio) {
       audio.pause();
       audio.currentTime = 0;
     }
+    pendingSeekRef.current = null;
+    setPosition(0);
+    savePosition(0);
     onStop();
   };
 
+  const seek = (t: number) => {
+    const audio = audioRef.current;
+    if (!audio || !Number.isFinite(t)) return;
+    pendingSeekRef.current = null;
+    audio.currentTime = t;
+    setPosition(t);
+    savePosition(t);
+  };
+
+  const syncLength = () => {
+    const d = audioRef.current?.duration;
+    setLength(d && Number.isFinite(d) ? d : 0);
+  };
+
+  const onLoadedMetadata = () => {
+    syncLength();
+    const audio = audioRef.current;
+    if (audio && pendingSeekRef.current != null) {
+      audio.currentTime = pendingSeekRef.current;
+      pendingSeekRef.current = null;
+    }
+  };
+
+  // Saved every couple of seconds while playing, and whenever paused
+  const onTimeUpdate = (time: number) => {
+    if (pendingSeekRef.current != null) return;
+    setPosition(time);
+    if (Math.abs(time - lastSavedTimeRef.current) >= 2) savePosition(time);
+    updatePositionState();
+    watchForEnd();
+  };
+
+  useImperativeHandle(playerRef, () => ({
+    togglePlay: () => {
+      if (currentSong) togglePlay();
+    },
+    seekBy: (seconds: number) => {
+      const audio = audioRef.current;
+      if (!audio || !currentSong || !length) return;
+      seek(Math.min(length, Math.max(0, audio.currentTime + seconds)));
+    },
+    seekTo: (seconds: number) => {
+      if (!currentSong) return;
+      seek(Math.max(0, length ? Math.min(length, seconds) : seconds));
+    },
+    restart: () => {
+      const audio = audioRef.current;
+      if (!audio || !currentSong?.audioUrl) return;
+      seek(0);
+      ensureGraph();
+      audio
+        .play()
+        .then(() => setIsPlaying(true))
+        .catch(() => setIsPlaying(false));
+    },
+    currentTime: () => audioRef.current?.currentTime ?? 0,
+  }));
+
+  /* Media Session: lock-screen / hardware media keys.
+   * Handlers are registered once and call through a ref, so they always see
+   * the latest queue callbacks without re-registering on every render. */
+  const hasMediaSession =
+    typeof navigator !== "undefined" && "mediaSession" in navigator;
+
+  const updatePositionState = () => {
+    const audio = audioRef.current;
+    if (!hasMediaSession || !audio) return;
+    const duration = audio.duration;
+    if (!Number.isFinite(duration) || duration <= 0) return;
+    try {
+      navigator.mediaSession.setPositionState({
+        duration,
+        playbackRate: audio.playbackRate || 1,
+        position: Math.min(audio.currentTime, duration),
+      });
+    } catch {
+      /* some browsers reject position state while loading */
+    }
+  };
+
+  const mediaActionsRef = useRef<
+    Partial<Record<MediaSessionAction, MediaSessionActionHandler>>
+  >({});
+  mediaActionsRef.current = {
+    play: () => {
+      if (currentSong && audioRef.current?.paused) togglePlay();
+    },
+    pause: () => {
+      if (audioRef.current && !audioRef.current.paused) togglePlay();
+    },
+    previoustrack: canStepPrev ? onStepPrev : undefined,
+    nexttrack: canStepNext ? onStepNext : undefined,
+    seekto: (details) => {
+      if (details.seekTime != null) seek(details.seekTime);
+    },
+    seekbackward: (details) =>
+      seek(Math.max(0, position - (details.seekOffset || 10))),
+    seekforward: (details) =>
+      seek(Math.min(length || Infinity, position + (details.seekOffset || 10))),
+    stop: () => stop(),
+  };
+
+  const availableActions = Object.entries(mediaActionsRef.current)
+    .filter(([, handler]) => handler)
+    .map(([action]) => action)
+    .join(",");
+
+  useEffect(() => {
+    if (!hasMediaSession) return;
+    const actions = availableActions.split(",") as MediaSessionAction[];
+    for (const action of actions) {
+      try {
+        navigator.mediaSession.setActionHandler(action, (details) =>
+          mediaActionsRef.current[action]?.(details)
+        );
+      } catch {
+        /* action not supported by this browser */
+      }
+    }
+    return () => {
+      for (const action of actions) {
+        try {
+          navigator.mediaSession.setActionHandler(action, null);
+        } catch {
+          /* ignore */
+        }
+      }
+    };
+  }, [hasMediaSession, availableActions]);
+
+  // Only the fields shown on the lock screen, so other edits don't reset it
+  const mediaTitle = currentSong?.title;
+  const mediaAlbum = currentSong?.genre;
+  useEffect(() => {
+    if (!hasMediaSession) return;
+    navigator.mediaSession.metadata =
+      mediaTitle != null
+        ? new MediaMetadata({
+            title: mediaTitle,
+            artist: MEDIA_ARTIST,
+            album: mediaAlbum,
+            artwork: MEDIA_ARTWORK,
+          })
+        : null;
+  }, [hasMediaSession, mediaTitle, mediaAlbum]);
+
+  useEffect(() => {
+    if (!hasMediaSession) return;
+    navigator.mediaSession.playbackState = !currentSong
+      ? "none"
+      : isPlaying
+      ? "playing"
+      : "paused";
+  }, [hasMediaSession, currentSong, isPlaying]);
+
   return (
-    <div className="sticky bottom-0 z-40">
+    <div className="print:hidden sticky bottom-0 z-40">
       <div className="max-w-6xl mx-auto px-4">
         <div className="mb-4 rounded-2xl shadow-lg border bg-white overflow-hidden">
+          {showSound && (
+            <SoundPanel
+              normalize={normalize}
+              onNormalize={setNormalize}
+              eq={eq}
+              onEq={setEq}
+              gainDb={currentSong?.gainDb ?? null}
+            />
+          )}
+          {showQueue && (
+            <UpNextPanel
+              songs={queueSongs}
+              currentIndex={queueIndex}
+              onJumpTo={onJumpTo}
+              onRemove={onRemoveFromQueue}
+              onMove={onMoveInQueue}
+            />
+          )}
           <div className="flex items-center justify-between p-3">
             <div className="flex items-center gap-3 min-w-0">
               <div className="h-10 w-10 rounded-xl bg-neutral-200" />
@@ -1539,10 +10415,21 @@ function MiniPlayer({
               </div>
             </div>
             <div className="flex items-center gap-2">
+              <button
+                className={classNames(
+                  "px-3 py-2 rounded-xl border text-sm",
+                  shuffle ? "bg-neutral-900 text-white" : "hover:bg-neutral-100"
+                )}
+                onClick={onToggleShuffle}
+                aria-pressed={shuffle}
+                title={shuffle ? "Shuffle on" : "Shuffle off"}
+              >
+                🔀
+              </button>
               <button
                 className="px-3 py-2 rounded-xl border text-sm hover:bg-neutral-100"
                 onClick={onStepPrev}
-                disabled={!canStep}
+                disabled={!canStepPrev}
               >
                 ⏮
               </button>
@@ -1556,10 +10443,55 @@ function MiniPlayer({
               <button
                 className="px-3 py-2 rounded-xl border text-sm hover:bg-neutral-100"
                 onClick={onStepNext}
-                disabled={!canStep}
+                disabled={!canStepNext}
               >
                 ⏭
               </button>
+              <button
+                className={classNames(
+                  "px-3 py-2 rounded-xl border text-sm",
+                  repeatMode !== "off"
+                    ? "bg-neutral-900 text-white"
+                    : "hover:bg-neutral-100"
+                )}
+                onClick={onCycleRepeat}
+                aria-label={`Repeat: ${repeatMode}`}
+                title={
+                  repeatMode === "one"
+                    ? "Repeat one"
+                    : repeatMode === "all"
+                    ? "Repeat all"
+                    : "Repeat off"
+                }
+              >
+                {repeatMode === "one" ? "🔂" : "🔁"}
+              </button>
+              <button
+                className={classNames(
+                  "px-3 py-2 rounded-xl border text-sm",
+                  showSound
+                    ? "bg-neutral-900 text-white"
+                    : "hover:bg-neutral-100"
+                )}
+                onClick={() => setShowSound(!showSound)}
+                aria-expanded={showSound}
+                title="Sound: loudness and EQ"
+              >
+                🎚
+              </button>
+              <button
+                className={classNames(
+                  "px-3 py-2 rounded-xl border text-sm",
+                  showQueue
+                    ? "bg-neutral-900 text-white"
+                    : "hover:bg-neutral-100"
+                )}
+                onClick={() => setShowQueue(!showQueue)}
+                aria-expanded={showQueue}
+                title="Up Next"
+              >
+                ☰ {queueSongs.length}
+              </button>
               {currentSong && (
                 <button
                   className="px-3 py-2 rounded-xl border text-sm hover:bg-neutral-100"
@@ -1570,19 +10502,444 @@ function MiniPlayer({
               )}
             </div>
           </div>
-          {/* Hidden audio element controls actual playback */}
-          <audio
-            ref={audioRef}
-            className="w-full hidden"
-            onEnded={onStepNext}
+          {currentSong && (
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-2 px-3 pb-3 text-xs text-neutral-600">
+              <div className="flex flex-1 min-w-[14rem] items-center gap-2">
+                <span className="tabular-nums w-10 text-right">
+                  {formatTime(position)}
+                </span>
+                {currentSong.waveform?.length && length ? (
+                  <Waveform
+                    peaks={currentSong.waveform}
+                    progress={position / length}
+                    onSeek={(fraction) => seek(fraction * length)}
+                    label="Seek"
+                    className="flex-1 h-8"
+                  />
+                ) : (
+                  <input
+                    type="range"
+                    min={0}
+                    max={length || 0}
+                    step={0.1}
+                    value={Math.min(position, length || 0)}
+                    onChange={(e) => seek(Number(e.target.value))}
+                    disabled={!length}
+                    aria-label="Seek"
+                    className="flex-1 accent-neutral-900"
+                  />
+                )}
+                <span className="tabular-nums w-10">
+                  {length ? `-${formatTime(length - position)}` : "--:--"}
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  className="px-2 py-1 rounded-lg border hover:bg-neutral-100"
+                  onClick={() => setMuted(!muted)}
+                  aria-label={muted ? "Unmute" : "Mute"}
+                >
+                  {muted || volume === 0 ? "🔇" : volume < 0.5 ? "🔉" : "🔊"}
+                </button>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={muted ? 0 : volume}
+                  onChange={(e) => {
+                    setVolume(Number(e.target.value));
+                    if (muted) setMuted(false);
+                  }}
+                  aria-label="Volume"
+                  className="w-20 accent-neutral-900"
+                />
+                <select
+                  value={rate}
+                  onChange={(e) => setRate(Number(e.target.value))}
+                  aria-label="Playback speed"
+                  className="px-1 py-1 rounded-lg border bg-white"
+                >
+                  {PLAYBACK_RATES.map((r) => (
+                    <option key={r} value={r}>
+                      {r}×
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={crossfadeSeconds}
+                  onChange={(e) => setCrossfade(Number(e.target.value))}
+                  aria-label="Crossfade between tracks"
+                  title="Crossfade between tracks"
+                  className="px-1 py-1 rounded-lg border bg-white"
+                >
+                  {CROSSFADE_OPTIONS.map((s) => (
+                    <option key={s} value={s}>
+                      {s ? `Fade ${s}s` : "Gapless"}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+          {/* Hidden audio decks control actual playback; events from the
+              standby or outgoing deck are ignored */}
+          {[0, 1].map((deck) => (
+            <audio
+              key={`${deck}-${deckKeys[deck]}`}
+              ref={(el) => {
+                deckRefs.current[deck] = el;
+                if (deck === activeDeckRef.current) audioRef.current = el;
+                const pending = pendingLoadRef.current[deck];
+                if (el && pending) {
+                  pendingLoadRef.current[deck] = null;
+                  fillDeck(deck, pending.src, pending.play);
+                }
+              }}
+              className="w-full hidden"
+              preload="auto"
+              loop={repeatMode === "one" && deck === activeDeck}
+              onEnded={(e) => {
+                if (e.currentTarget !== audioRef.current) return;
+                stopWatch();
+                // A late hand-off, e.g. when timers were throttled
+                if (beginHandoff()) return;
+                savePosition(0);
+                onEnded();
+              }}
+              onTimeUpdate={(e) => {
+                if (e.currentTarget === audioRef.current)
+                  onTimeUpdate(e.currentTarget.currentTime);
+              }}
+              onPause={(e) => {
+                if (e.currentTarget !== audioRef.current) return;
+                stopWatch();
+                savePosition(e.currentTarget.currentTime);
+              }}
+              onLoadedMetadata={(e) => {
+                if (e.currentTarget !== audioRef.current) return;
+                onLoadedMetadata();
+                updatePositionState();
+              }}
+              onRateChange={(e) => {
+                if (e.currentTarget === audioRef.current) updatePositionState();
+              }}
+              onDurationChange={(e) => {
+                if (e.currentTarget === audioRef.current) syncLength();
+              }}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function SoundPanel({
+  normalize,
+  onNormalize,
+  eq,
+  onEq,
+  gainDb,
+}: {
+  normalize: boolean;
+  onNormalize: (on: boolean) => void;
+  eq: EqSettings;
+  onEq: (eq: EqSettings) => void;
+  gainDb: number | null; // the current song's normalisation gain
+}) {
+  const setBand = (index: number, db: number) =>
+    onEq({
+      preset: "Custom",
+      gains: EQ_BANDS.map((_, i) => (i === index ? db : eq.gains[i] ?? 0)),
+    });
+
+  return (
+    <div className="border-b p-3 text-sm">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <h2 className="font-semibold">Sound</h2>
+        <label className="flex items-center gap-2 text-xs">
+          <input
+            type="checkbox"
+            checked={normalize}
+            onChange={(e) => onNormalize(e.target.checked)}
           />
+          Even out loudness between songs
+          {normalize && gainDb != null && (
+            <span className="text-neutral-500">
+              (this song {formatGain(gainDb)})
+            </span>
+          )}
+        </label>
+      </div>
+      <div className="mt-3 flex flex-wrap items-end gap-4">
+        <label className="grid gap-1 text-xs">
+          <span className="text-neutral-600">EQ</span>
+          <select
+            value={eq.preset}
+            onChange={(e) =>
+              onEq({
+                preset: e.target.value,
+                gains: EQ_PRESETS[e.target.value] ?? eq.gains,
+              })
+            }
+            className="px-2 py-1 rounded-lg border bg-white"
+          >
+            {Object.keys(EQ_PRESETS).map((name) => (
+              <option key={name}>{name}</option>
+            ))}
+            {!(eq.preset in EQ_PRESETS) && <option>{eq.preset}</option>}
+          </select>
+        </label>
+        {EQ_BANDS.map((band, i) => {
+          const db = eq.gains[i] ?? 0;
+          return (
+            <label
+              key={band.label}
+              className="grid justify-items-center gap-1 text-xs"
+            >
+              <span className="tabular-nums">{db > 0 ? `+${db}` : db} dB</span>
+              <input
+                type="range"
+                min={-12}
+                max={12}
+                step={1}
+                value={db}
+                onChange={(e) => setBand(i, Number(e.target.value))}
+                aria-label={`EQ ${band.label}`}
+                className="w-24 accent-neutral-900"
+              />
+              <span className="text-neutral-500">{band.label}</span>
+            </label>
+          );
+        })}
+      </div>
+      <p className="mt-2 text-xs text-neutral-500">
+        Uploads and files on this site are always processed; linked files once
+        their host allows it (CORS) and they have been measured.
+      </p>
+    </div>
+  );
+}
+
+function UpNextPanel({
+  songs,
+  currentIndex,
+  onJumpTo,
+  onRemove,
+  onMove,
+}: {
+  songs: (Song | null)[];
+  currentIndex: number | null;
+  onJumpTo: (index: number) => void;
+  onRemove: (index: number) => void;
+  onMove: (from: number, to: number) => void;
+}) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+  const rowRefs = useRef<(HTMLLIElement | null)[]>([]);
+  const focusIndexRef = useRef<number | null>(null);
+
+  // Keep keyboard focus on a row after it moves
+  useEffect(() => {
+    if (focusIndexRef.current == null) return;
+    rowRefs.current[focusIndexRef.current]?.focus();
+    focusIndexRef.current = null;
+  });
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= songs.length) return;
+    focusIndexRef.current = to;
+    onMove(from, to);
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent, index: number) => {
+    if (e.altKey && e.key === "ArrowUp") {
+      e.preventDefault();
+      move(index, index - 1);
+    } else if (e.altKey && e.key === "ArrowDown") {
+      e.preventDefault();
+      move(index, index + 1);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      rowRefs.current[index - 1]?.focus();
+    } else if (e.key === "ArrowDown") {
+      e.preventDefault();
+      rowRefs.current[index + 1]?.focus();
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      onJumpTo(index);
+    } else if (e.key === "Delete" || e.key === "Backspace") {
+      e.preventDefault();
+      focusIndexRef.current = Math.min(index, songs.length - 2);
+      onRemove(index);
+    }
+  };
+
+  return (
+    <div className="border-b max-h-72 overflow-y-auto">
+      <div className="px-3 pt-3 flex items-baseline justify-between">
+        <h2 className="text-sm font-semibold">Up Next</h2>
+        <p className="text-xs text-neutral-500">
+          Drag or Alt+↑/↓ to reorder · Enter to play · Delete to remove
+        </p>
+      </div>
+      {songs.length === 0 ? (
+        <p className="p-3 text-sm text-neutral-600">
+          The queue is empty. Use “Play next” or “+ Queue” on any song.
+        </p>
+      ) : (
+        <ol className="p-2 text-sm" aria-label="Queue">
+          {songs.map((song, i) => (
+            <li
+              key={song?.id ?? `missing-${i}`}
+              ref={(el) => {
+                rowRefs.current[i] = el;
+              }}
+              tabIndex={0}
+              draggable
+              aria-current={i === currentIndex ? "true" : undefined}
+              onKeyDown={(e) => onKeyDown(e, i)}
+              onDragStart={(e) => {
+                setDragIndex(i);
+                e.dataTransfer.effectAllowed = "move";
+              }}
+              onDragOver={(e) => {
+                if (dragIndex == null) return;
+                e.preventDefault();
+                setOverIndex(i);
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                if (dragIndex != null) onMove(dragIndex, i);
+                setDragIndex(null);
+                setOverIndex(null);
+              }}
+              onDragEnd={() => {
+                setDragIndex(null);
+                setOverIndex(null);
+              }}
+              className={classNames(
+                "flex items-center gap-2 px-2 py-1 rounded-lg focus:outline-none focus:ring-2 focus:ring-neutral-400",
+                i === currentIndex && "bg-neutral-100 font-medium",
+                dragIndex === i && "opacity-50",
+                overIndex === i && dragIndex !== i && "ring-2 ring-neutral-300"
+              )}
+            >
+              <span className="cursor-grab text-neutral-400" aria-hidden>
+                ⠿
+              </span>
+              <span className="w-6 text-right text-xs text-neutral-500 tabular-nums">
+                {i === currentIndex ? "▶" : i + 1}
+              </span>
+              <button
+                className="flex-1 min-w-0 text-left truncate"
+                onClick={() => onJumpTo(i)}
+                tabIndex={-1}
+              >
+                {song ? song.title : "(removed song)"}
+                {song && (
+                  <span className="ml-2 text-xs text-neutral-500">
+                    {song.duration}
+                  </span>
+                )}
+              </button>
+              <button
+                className="px-1 text-xs rounded hover:bg-neutral-200 disabled:opacity-30"
+                onClick={() => move(i, i - 1)}
+                disabled={i === 0}
+                aria-label="Move up"
+                tabIndex={-1}
+              >
+                ↑
+              </button>
+              <button
+                className="px-1 text-xs rounded hover:bg-neutral-200 disabled:opacity-30"
+                onClick={() => move(i, i + 1)}
+                disabled={i === songs.length - 1}
+                aria-label="Move down"
+                tabIndex={-1}
+              >
+                ↓
+              </button>
+              <button
+                className="px-1 text-xs rounded hover:bg-neutral-200"
+                onClick={() => onRemove(i)}
+                aria-label={`Remove ${song?.title ?? "song"} from queue`}
+                tabIndex={-1}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+function ShortcutsOverlay({ onClose }: { onClose: () => void }) {
+  const closeRef = useRef<HTMLButtonElement>(null);
+  useEffect(() => {
+    closeRef.current?.focus();
+  }, []);
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="shortcuts-title"
+    >
+      <div
+        className="w-full max-w-md rounded-2xl bg-white p-6 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          if (e.key === "Escape") onClose();
+        }}
+      >
+        <div className="flex items-center justify-between">
+          <h2 id="shortcuts-title" className="text-lg font-semibold">
+            Keyboard Shortcuts
+          </h2>
+          <button
+            ref={closeRef}
+            className="px-2 py-1 rounded-lg border text-sm hover:bg-neutral-100"
+            onClick={onClose}
+          >
+            Close
+          </button>
         </div>
+        <dl className="mt-4 grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+          {SHORTCUTS.map((sc) => (
+            <React.Fragment key={sc.label}>
+              <dt className="flex items-center gap-1">
+                {sc.keys.map((k, i) => (
+                  <React.Fragment key={k}>
+                    {i > 0 && (
+                      <span className="text-xs text-neutral-500">
+                        {sc.sequence ? "then" : "or"}
+                      </span>
+                    )}
+                    <kbd className="px-2 py-0.5 rounded-md border bg-neutral-50 font-mono text-xs">
+                      {k}
+                    </kbd>
+                  </React.Fragment>
+                ))}
+              </dt>
+              <dd className="text-neutral-700">{sc.label}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+        <p className="mt-4 text-xs text-neutral-500">
+          Shortcuts are paused while you type in a form.
+        </p>
       </div>
     </div>
   );
 }
 
-function NotFound({ onBack }: any) {
+function NotFound({ onBack }: { onBack: () => void }) {
   return (
     <section className="max-w-3xl mx-auto px-4 py-16 text-center">
       <h1 className="text-3xl font-semibold">404</h1>
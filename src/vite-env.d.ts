@@ -1 +1,9 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // "history" for clean URLs (/music) instead of hash URLs (#/music)
+  readonly VITE_ROUTER?: "hash" | "history";
+  // PBKDF2 salt and hash (base64) of the Private section passphrase
+  readonly VITE_PRIVATE_SALT?: string;
+  readonly VITE_PRIVATE_HASH?: string;
+}